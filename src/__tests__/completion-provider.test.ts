@@ -0,0 +1,213 @@
+import { EditorState, type Extension } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type CompletionProviderOptions, createCompletionProvider } from "../completion-provider";
+import { inlineCompletion } from "../inline-edit/inline-completion";
+import { nextEditPrediction } from "../next-edit-prediction/extension";
+import { CURSOR_MARKER, type DiffSuggestion } from "../next-edit-prediction/types";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+/** Focuses the editor, then waits for CodeMirror to notify the focus change */
+async function focus(view: EditorView) {
+  view.focus();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe("createCompletionProvider", () => {
+  const views: EditorView[] = [];
+
+  function createView(extensions: Extension[] = []) {
+    const parent = document.createElement("div");
+    document.body.append(parent);
+    const view = new EditorView({
+      state: EditorState.create({ doc: "Hello world", extensions }),
+      parent,
+    });
+    views.push(view);
+    return view;
+  }
+
+  function createProvider(opts: CompletionProviderOptions = {}) {
+    const provider = createCompletionProvider(opts);
+    return {
+      provider,
+      view: (...extensions: Extension[]) => createView([provider.extension, ...extensions]),
+    };
+  }
+
+  afterEach(() => {
+    for (const view of views.splice(0)) {
+      view.dom.parentElement?.remove();
+      view.destroy();
+    }
+    vi.useRealTimers();
+  });
+
+  it("limits the number of concurrent requests", async () => {
+    const { provider, view } = createProvider({ maxConcurrent: 1, focusedOnly: false });
+    const editor = view();
+    const first = deferred<string>();
+    const second = vi.fn().mockResolvedValue("second");
+
+    const firstResult = provider.request(editor, () => first.promise);
+    const secondResult = provider.request(editor, second);
+    await Promise.resolve();
+
+    expect(second).not.toHaveBeenCalled();
+
+    first.resolve("first");
+    expect(await firstResult).toBe("first");
+    expect(await secondResult).toBe("second");
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it("holds the slot of a streamed result until it is read or aborted", async () => {
+    const { provider, view } = createProvider({ maxConcurrent: 1, focusedOnly: false });
+    const editor = view();
+    async function* stream() {
+      yield "a";
+    }
+    const second = vi.fn().mockResolvedValue("second");
+    const third = vi.fn().mockResolvedValue("third");
+    const controller = new AbortController();
+
+    const first = await provider.request(editor, stream);
+    const secondResult = provider.request(editor, second);
+    await Promise.resolve();
+    expect(second).not.toHaveBeenCalled();
+
+    for await (const _chunk of first) {
+      // read it all
+    }
+    expect(await secondResult).toBe("second");
+
+    // An abandoned stream is released when its request is aborted
+    await provider.request(editor, stream, controller.signal);
+    const thirdResult = provider.request(editor, third);
+    await Promise.resolve();
+    expect(third).not.toHaveBeenCalled();
+    controller.abort();
+    expect(await thirdResult).toBe("third");
+  });
+
+  it("drops queued requests when they are aborted", async () => {
+    const { provider, view } = createProvider({ maxConcurrent: 1, focusedOnly: false });
+    const editor = view();
+    const first = deferred<string>();
+    const second = vi.fn().mockResolvedValue("second");
+    const controller = new AbortController();
+
+    const firstResult = provider.request(editor, () => first.promise);
+    const secondResult = provider.request(editor, second, controller.signal);
+    controller.abort();
+
+    await expect(secondResult).rejects.toMatchObject({ name: "AbortError" });
+    first.resolve("first");
+    await firstResult;
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it("only lets the focused editor issue requests", async () => {
+    const { provider, view } = createProvider();
+    const focused = view();
+    const other = view();
+    const run = vi.fn().mockResolvedValue("result");
+
+    focused.focus();
+
+    expect(await provider.request(focused, run)).toBe("result");
+    await expect(provider.request(other, run)).rejects.toMatchObject({ name: "AbortError" });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels the requests of an editor when it loses focus", async () => {
+    const { provider, view } = createProvider({ maxConcurrent: 1 });
+    const first = view();
+    const second = view();
+    let signal: AbortSignal | undefined;
+
+    await focus(first);
+    const result = provider
+      .request(first, (s) => {
+        signal = s;
+        return new Promise<string>(() => {
+          // never resolves
+        });
+      })
+      .catch((error: unknown) => error);
+    const queued = provider.request(first, vi.fn()).catch((error: unknown) => error);
+    await Promise.resolve();
+    expect(signal?.aborted).toBe(false);
+
+    await focus(second);
+
+    expect(signal?.aborted).toBe(true);
+    expect(await queued).toMatchObject({ name: "AbortError" });
+    // The running request gives up its slot without waiting for `run`
+    expect(await result).toMatchObject({ name: "AbortError" });
+    await focus(first);
+    expect(await provider.request(first, () => "next")).toBe("next");
+  });
+
+  it("shares its cache between the inline completions of several editors", async () => {
+    vi.useFakeTimers();
+    const { provider, view } = createProvider({ focusedOnly: false });
+    const fetchFn = vi.fn().mockResolvedValue("suggestion");
+    const first = view(inlineCompletion({ fetchFn, delay: 0, provider }));
+    const second = view(inlineCompletion({ fetchFn, delay: 0, provider }));
+
+    first.dispatch({ changes: { from: 5, to: 5, insert: " " }, selection: { anchor: 6 } });
+    await vi.runAllTimersAsync();
+    second.dispatch({ changes: { from: 5, to: 5, insert: " " }, selection: { anchor: 6 } });
+    await vi.runAllTimersAsync();
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(second.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("suggestion");
+  });
+
+  it("routes next edit predictions through the queue", async () => {
+    vi.useFakeTimers();
+    const { provider, view } = createProvider();
+    const fetchFn = vi.fn().mockResolvedValue({ oldText: "", newText: "", from: 0, to: 0 });
+    const focused = view(nextEditPrediction({ fetchFn, delay: 0, provider }));
+    const other = view(nextEditPrediction({ fetchFn, delay: 0, provider }));
+
+    focused.focus();
+    other.dispatch({ changes: { from: 5, to: 5, insert: " " } });
+    await vi.runAllTimersAsync();
+    expect(fetchFn).not.toHaveBeenCalled();
+
+    focused.dispatch({ changes: { from: 5, to: 5, insert: " " } });
+    await vi.runAllTimersAsync();
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops next edit predictions that finish after the editor lost focus", async () => {
+    const { provider, view } = createProvider({ maxConcurrent: 1 });
+    const prediction = deferred<DiffSuggestion>();
+    const fetchFn = vi.fn().mockReturnValue(prediction.promise);
+    const first = view(nextEditPrediction({ fetchFn, delay: 0, provider }));
+    const second = view();
+
+    await focus(first);
+    first.dispatch({ changes: { from: 5, to: 5, insert: " " } });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    await focus(second);
+    // The slot is free before the prediction finishes
+    expect(await provider.request(second, () => "next")).toBe("next");
+
+    const oldText = `${CURSOR_MARKER}Hello  world`;
+    prediction.resolve({ oldText, newText: `${oldText}!`, from: 0, to: 0 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(first.dom.querySelector(".cm-ghost-add")).toBeNull();
+  });
+});
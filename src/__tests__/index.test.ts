@@ -6,43 +6,74 @@ describe("index.ts exports", () => {
     const sortedExports = Object.keys(exports).sort();
     expect(sortedExports).toMatchInlineSnapshot(`
       [
+        "AiEditBackend",
+        "FimTokenPresets",
+        "InlineCompletionBackend",
         "PredictionBackend",
+        "PredictionHttpError",
+        "SuggestionCache",
         "acceptAiEdit",
+        "acceptAiEditHunk",
+        "acceptAiEditSession",
         "acceptInlineCompletion",
+        "acceptInlineCompletionAtCursor",
+        "acceptInlineCompletionLine",
+        "acceptInlineCompletionWord",
+        "acceptNepHunk",
         "acceptNepSuggestion",
+        "addSession",
         "aiExtension",
         "aiTheme",
+        "cancelAiEditSession",
+        "classifyPredictionError",
         "closeAiEditInput",
-        "completionState",
+        "createCompletionProvider",
+        "createSession",
+        "cycleAiEditAlternative",
         "defaultKeymaps",
         "defaultTriggerRenderer",
+        "editMessage",
+        "fimPrompt",
+        "formatRecentEdits",
+        "getRecentEdits",
+        "getSession",
+        "getSessionAt",
+        "hasCompletion",
+        "httpTransport",
         "inlineCompletion",
         "inlineCompletionKeymap",
         "inputPromptDecoration",
-        "inputState",
-        "inputValueState",
-        "lineShiftListener",
-        "loadingState",
+        "jumpToNepHunk",
         "navigatePromptDown",
         "navigatePromptUp",
         "newCodeDecoration",
         "nextEditPrediction",
+        "nextInlineCompletion",
         "oldCodeDecoration",
         "optionsFacet",
+        "previousInlineCompletion",
         "promptHistory",
+        "refineAiEditSession",
+        "regenerateAiEdit",
+        "regenerateAiEditSession",
         "rejectAiEdit",
+        "rejectAiEditHunk",
+        "rejectAiEditSession",
         "rejectInlineCompletion",
         "rejectNepSuggestion",
-        "setInputFocus",
-        "setInputValue",
-        "setLoading",
+        "removeSession",
+        "sendPrediction",
+        "sessionsState",
         "showAiEditInput",
-        "showCompletion",
-        "showInput",
         "storePrompt",
+        "submitAiEditSession",
+        "suggestionCacheKey",
+        "trackRecentEdits",
         "triggerOptions",
         "triggerPlugin",
         "triggerViewPlugin",
+        "trimSuffixOverlap",
+        "updateSession",
       ]
     `);
   });
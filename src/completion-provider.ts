@@ -0,0 +1,178 @@
+import type { Extension } from "@codemirror/state";
+import { type EditorView, ViewPlugin } from "@codemirror/view";
+import { releaseWhenRead } from "./inline-edit/stream.js";
+import { type InlineCompletionCache, SuggestionCache } from "./inline-edit/suggestion-cache.js";
+
+export interface CompletionProviderOptions {
+  /**
+   * Maximum number of requests in flight across all editors. A streamed
+   * result counts until it is fully read. Further requests wait in a queue.
+   * @default 2
+   */
+  maxConcurrent?: number;
+  /**
+   * Only let the focused editor issue requests. Requests from an
+   * editor are cancelled when it loses focus.
+   * @default true
+   */
+  focusedOnly?: boolean;
+  /**
+   * Cache shared by the inline completions of all editors.
+   * @default new SuggestionCache()
+   */
+  cache?: InlineCompletionCache;
+}
+
+/**
+ * Shared by many editors (e.g. the cells of a notebook) so their
+ * completion requests go through one queue with global limits.
+ * Pass it as the `provider` option of `inlineCompletion` and
+ * `nextEditPrediction`.
+ */
+export interface CompletionProvider {
+  /** Cache for inline completions shared by all editors */
+  readonly cache: InlineCompletionCache;
+  /**
+   * Runs a request for an editor once a slot is free. The request's signal
+   * is aborted when `signal` is, or when the editor loses focus (with
+   * `focusedOnly`). Rejects with an `AbortError` if it is cancelled
+   * before it settles, and frees its slot even if `run` ignores the signal.
+   */
+  request<T>(
+    view: EditorView,
+    run: (signal: AbortSignal) => Promise<T> | T,
+    signal?: AbortSignal,
+  ): Promise<T>;
+  /** Cancels the requests of an editor, or of all editors */
+  cancel(view?: EditorView): void;
+  /** Tracks focus of the editors using the provider */
+  readonly extension: Extension;
+}
+
+interface QueuedRequest {
+  view: EditorView;
+  controller: AbortController;
+  start: () => void;
+}
+
+function abortError() {
+  return new DOMException("The request was cancelled", "AbortError");
+}
+
+/**
+ * Creates a completion provider to share between editors.
+ */
+export function createCompletionProvider(opts: CompletionProviderOptions = {}): CompletionProvider {
+  const { maxConcurrent = 2, focusedOnly = true } = opts;
+  const cache = opts.cache ?? new SuggestionCache();
+
+  const queue: QueuedRequest[] = [];
+  const requests = new Set<QueuedRequest>();
+  let running = 0;
+
+  const next = () => {
+    while (running < maxConcurrent) {
+      const request = queue.shift();
+      if (!request) return;
+      request.start();
+    }
+  };
+
+  const cancel = (view?: EditorView) => {
+    for (const request of [...requests]) {
+      if (!view || request.view === view) {
+        request.controller.abort();
+      }
+    }
+  };
+
+  const request = <T>(
+    view: EditorView,
+    run: (signal: AbortSignal) => Promise<T> | T,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    if (signal?.aborted || (focusedOnly && !view.hasFocus)) {
+      return Promise.reject(abortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const controller = new AbortController();
+      let started = false;
+      let settled = false;
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        running--;
+        done();
+        next();
+      };
+      const entry: QueuedRequest = {
+        view,
+        controller,
+        start: () => {
+          started = true;
+          running++;
+          Promise.resolve()
+            .then(() => run(controller.signal))
+            .then(
+              (result) => {
+                // Cancelled while running: the slot is already free
+                if (settled) return;
+                settled = true;
+                // A stream holds its slot until it is read
+                resolve(releaseWhenRead(result, release, controller.signal));
+              },
+              (error) => {
+                release();
+                if (settled) return;
+                settled = true;
+                reject(error);
+              },
+            );
+        },
+      };
+
+      const onAbort = () => {
+        controller.abort();
+      };
+      const done = () => {
+        requests.delete(entry);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      signal?.addEventListener("abort", onAbort);
+      controller.signal.addEventListener("abort", () => {
+        if (settled) return;
+        settled = true;
+        if (started) {
+          // Don't wait for a request that ignores the signal
+          release();
+        } else {
+          // Drop it from the queue before it starts
+          const index = queue.indexOf(entry);
+          if (index !== -1) queue.splice(index, 1);
+          done();
+        }
+        reject(abortError());
+      });
+
+      requests.add(entry);
+      queue.push(entry);
+      next();
+    });
+  };
+
+  const extension = ViewPlugin.define((view) => ({
+    update(update) {
+      if (focusedOnly && update.focusChanged && !view.hasFocus) {
+        cancel(view);
+      }
+    },
+    destroy() {
+      cancel(view);
+    },
+  }));
+
+  return { cache, request, cancel, extension };
+}
@@ -1,13 +1,34 @@
+export * from "./completion-provider.js";
+export * from "./inline-edit/backend.js";
 export * from "./inline-edit/commands.js";
 export * from "./inline-edit/inline-completion.js";
 export * from "./inline-edit/inline-edit.js";
 export * from "./inline-edit/state.js";
+export * from "./inline-edit/suggestion-cache.js";
 export * from "./inline-edit/theme.js";
 export * from "./inline-edit/trigger.js";
-export { PredictionBackend } from "./next-edit-prediction/backend.js";
 export {
+  type OpenAIBackendOptions,
+  PredictionBackend,
+  type PromptOptions,
+  type RateLimitOptions,
+  type ThrottleEvent,
+} from "./next-edit-prediction/backend.js";
+export type { ContextProvider } from "./next-edit-prediction/context.js";
+export {
+  acceptNepHunk,
   acceptNepSuggestion,
+  jumpToNepHunk,
   nextEditPrediction,
   rejectNepSuggestion,
 } from "./next-edit-prediction/extension.js";
+export {
+  formatRecentEdits,
+  getRecentEdits,
+  type RecentEdit,
+  type RecentEditsOptions,
+  trackRecentEdits,
+} from "./next-edit-prediction/recent-edits.js";
+export * from "./next-edit-prediction/transport.js";
+export type { PredictionWindowOptions } from "./next-edit-prediction/window.js";
 export * from "./prompt-history/extension.js";
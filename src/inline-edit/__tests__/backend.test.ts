@@ -0,0 +1,296 @@
+import { EditorSelection, EditorState } from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  AiEditBackend,
+  editMessage,
+  FimTokenPresets,
+  fimPrompt,
+  InlineCompletionBackend,
+  trimSuffixOverlap,
+} from "../backend";
+import type { CreateEditOpts } from "../state";
+
+const createState = (doc: string, pos: number) =>
+  EditorState.create({ doc, selection: EditorSelection.cursor(pos) });
+
+describe("fimPrompt", () => {
+  it("should wrap the code around the cursor in FIM tokens", () => {
+    const state = createState("def add(a, b):\n    \n", 19);
+    expect(fimPrompt(state, FimTokenPresets.qwen).prompt).toBe(
+      "<|fim_prefix|>def add(a, b):\n    <|fim_suffix|>\n<|fim_middle|>",
+    );
+    expect(fimPrompt(state, FimTokenPresets.codellama).prompt).toBe(
+      "<PRE> def add(a, b):\n     <SUF>\n <MID>",
+    );
+  });
+
+  it("should limit the code sent before and after the cursor", () => {
+    const state = createState("0123456789", 5);
+    const { prompt, suffix } = fimPrompt(state, { prefix: "P", suffix: "S", middle: "M" }, 2, 3);
+    expect(prompt).toBe("P34S567M");
+    expect(suffix).toBe("567");
+  });
+});
+
+describe("trimSuffixOverlap", () => {
+  it("should remove the part of the completion repeated by the suffix", () => {
+    expect(trimSuffixOverlap("foo(a, b))", ")")).toBe("foo(a, b)");
+    expect(trimSuffixOverlap("x = 1\n}\n", "}\n\nfoo()")).toBe("x = 1\n");
+    expect(trimSuffixOverlap("bar(a[0]))]", ")]")).toBe("bar(a[0])");
+    expect(trimSuffixOverlap("foo()\n  return x\n}", "  return x\n}\n")).toBe("foo()\n");
+  });
+
+  it("should keep short overlaps that are part of the code", () => {
+    expect(trimSuffixOverlap("bar()", ")")).toBe("bar()");
+    expect(trimSuffixOverlap("items", "s[0]")).toBe("items");
+    expect(trimSuffixOverlap("x = 1\n", "\nfoo()")).toBe("x = 1\n");
+  });
+
+  it("should keep the completion when nothing overlaps", () => {
+    expect(trimSuffixOverlap("foo()", "\nbar()")).toBe("foo()");
+    expect(trimSuffixOverlap("foo()", "")).toBe("foo()");
+  });
+});
+
+describe("InlineCompletionBackend.fim", () => {
+  const view = {} as EditorView;
+
+  function mockFetch(body: unknown, init: ResponseInit = { status: 200 }) {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(body), init));
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should post a FIM prompt to /completions", async () => {
+    const fetchMock = mockFetch({ choices: [{ text: "a + b" }] });
+    const fetchFn = InlineCompletionBackend.fim({
+      model: "qwen2.5-coder:1.5b",
+      baseUrl: "http://localhost:11434/v1",
+      tokens: "starcoder",
+      temperature: 0,
+      stop: ["\n\n"],
+    });
+    const signal = new AbortController().signal;
+
+    const result = await fetchFn(createState("return ", 7), signal, view);
+
+    expect(result).toBe("a + b");
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe("http://localhost:11434/v1/completions");
+    expect(init.signal).toBe(signal);
+    expect(JSON.parse(init.body)).toEqual({
+      model: "qwen2.5-coder:1.5b",
+      prompt: "<fim_prefix>return <fim_suffix><fim_middle>",
+      max_tokens: 128,
+      temperature: 0,
+      stop: ["\n\n"],
+    });
+  });
+
+  it("should accept custom tokens", async () => {
+    const fetchMock = mockFetch({ choices: [{ text: "" }] });
+    const fetchFn = InlineCompletionBackend.fim({
+      model: "m",
+      baseUrl: "http://localhost",
+      tokens: { prefix: "[P]", suffix: "[S]", middle: "[M]" },
+    });
+
+    await fetchFn(createState("ab", 1), new AbortController().signal, view);
+
+    expect(JSON.parse(fetchMock.mock.calls[0]?.[1].body).prompt).toBe("[P]a[S]b[M]");
+  });
+
+  it("should not repeat the code after the cursor", async () => {
+    mockFetch({ choices: [{ text: "print(x))" }] });
+    const fetchFn = InlineCompletionBackend.fim({ model: "m", baseUrl: "http://localhost" });
+
+    const result = await fetchFn(createState("foo()", 4), new AbortController().signal, view);
+
+    expect(result).toBe("print(x)");
+  });
+
+  it("should throw on HTTP errors and invalid responses", async () => {
+    const fetchFn = InlineCompletionBackend.fim({ model: "m", baseUrl: "http://localhost" });
+    const signal = new AbortController().signal;
+
+    mockFetch({}, { status: 500 });
+    await expect(fetchFn(createState("", 0), signal, view)).rejects.toThrow(
+      "HTTP error! status: 500",
+    );
+
+    mockFetch({ content: "llama.cpp native shape" });
+    await expect(fetchFn(createState("", 0), signal, view)).rejects.toThrow(
+      "Invalid response from server",
+    );
+  });
+});
+
+describe("AiEditBackend.anthropic", () => {
+  const editOpts = (overrides: Partial<CreateEditOpts> = {}): CreateEditOpts => ({
+    prompt: "add types",
+    editorView: {} as EditorView,
+    selection: "def add(a, b):",
+    codeBefore: "import math\n",
+    codeAfter: "\n    return a + b",
+    signal: new AbortController().signal,
+    ...overrides,
+  });
+
+  function sse(events: unknown[]) {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          const text = `event: message\ndata: ${JSON.stringify(event)}\n\n`;
+          // Split events across chunks, as the network would
+          controller.enqueue(encoder.encode(text.slice(0, 10)));
+          controller.enqueue(encoder.encode(text.slice(10)));
+        }
+        controller.close();
+      },
+    });
+  }
+
+  const textDelta = (text: string) => ({
+    type: "content_block_delta",
+    index: 0,
+    delta: { type: "text_delta", text },
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should build the request and strip code fences from the answer", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          content: [{ type: "text", text: "```python\ndef add(a: int, b: int) -> int:\n```" }],
+        }),
+      ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const prompt = AiEditBackend.anthropic({ model: "claude-sonnet-4-5", apiKey: "key" });
+    const opts = editOpts();
+
+    const result = await prompt(opts);
+
+    expect(result).toBe("def add(a: int, b: int) -> int:");
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(init.signal).toBe(opts.signal);
+    expect(init.headers).toMatchObject({
+      "x-api-key": "key",
+      "anthropic-version": "2023-06-01",
+    });
+    const body = JSON.parse(init.body);
+    expect(body).toMatchObject({ model: "claude-sonnet-4-5", max_tokens: 4096, stream: false });
+    expect(body.system).toEqual(expect.any(String));
+    expect(body.messages).toEqual([{ role: "user", content: editMessage(opts) }]);
+    expect(body.messages[0].content).toContain("<selection>\ndef add(a, b):\n</selection>");
+    expect(body.messages[0].content).toContain("Instruction: add types");
+  });
+
+  it("should send follow-up prompts after the earlier turns", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ content: [{ type: "text", text: "x" }] })));
+    vi.stubGlobal("fetch", fetchMock);
+    const prompt = AiEditBackend.anthropic({ model: "m", baseUrl: "http://localhost:8080" });
+    const opts = editOpts({
+      prompt: "also add a docstring",
+      proposal: "def add(a: int, b: int) -> int:",
+      history: [{ prompt: "add types", response: "def add(a: int, b: int) -> int:" }],
+    });
+
+    await prompt(opts);
+
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe("http://localhost:8080/v1/messages");
+    expect(init.headers["x-api-key"]).toBeUndefined();
+    expect(JSON.parse(init.body).messages).toEqual([
+      { role: "user", content: editMessage(editOpts()) },
+      { role: "assistant", content: "def add(a: int, b: int) -> int:" },
+      { role: "user", content: "also add a docstring" },
+    ]);
+  });
+
+  it("should send the current proposal when it was edited since the last turn", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ content: [{ type: "text", text: "x" }] })));
+    vi.stubGlobal("fetch", fetchMock);
+    const prompt = AiEditBackend.anthropic({ model: "m", baseUrl: "http://localhost:8080" });
+    const opts = editOpts({
+      prompt: "also add a docstring",
+      proposal: "def add(a: float, b: float) -> float:",
+      history: [{ prompt: "add types", response: "def add(a: int, b: int) -> int:" }],
+    });
+
+    await prompt(opts);
+
+    const [, init] = fetchMock.mock.calls[0] ?? [];
+    expect(JSON.parse(init.body).messages[1]).toEqual({
+      role: "assistant",
+      content: "def add(a: float, b: float) -> float:",
+    });
+  });
+
+  it("should stream text deltas without the code fence", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(
+          sse([
+            { type: "message_start", message: {} },
+            { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+            textDelta("```py"),
+            textDelta("thon\ndef add("),
+            textDelta("a: int, b: int"),
+            textDelta(") -> int:\n```"),
+            { type: "content_block_stop", index: 0 },
+            { type: "message_stop" },
+          ]),
+        ),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+    const prompt = AiEditBackend.anthropic({ model: "m", stream: true });
+
+    const chunks: string[] = [];
+    for await (const chunk of (await prompt(editOpts())) as AsyncIterable<string>) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join("")).toBe("def add(a: int, b: int) -> int:");
+    expect(JSON.parse(fetchMock.mock.calls[0]?.[1].body).stream).toBe(true);
+  });
+
+  it("should throw on HTTP and stream errors", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 401 })));
+    await expect(AiEditBackend.anthropic({ model: "m" })(editOpts())).rejects.toThrow(
+      "HTTP error! status: 401",
+    );
+
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(
+          new Response(sse([textDelta("x"), { type: "error", error: { message: "Overloaded" } }])),
+        ),
+    );
+    const stream = (await AiEditBackend.anthropic({ model: "m", stream: true })(
+      editOpts(),
+    )) as AsyncIterable<string>;
+    await expect(async () => {
+      for await (const _ of stream) {
+        // consume
+      }
+    }).rejects.toThrow("Stream error: Overloaded");
+  });
+});
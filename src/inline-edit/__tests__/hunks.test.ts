@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { computeHunks, computeWordChanges, getHunks } from "../hunks";
+
+describe("computeHunks", () => {
+  it("should return no hunks for identical code", () => {
+    expect(computeHunks("a\nb", "a\nb", 0)).toEqual([]);
+  });
+
+  it("should split separate changes into separate hunks", () => {
+    const oldCode = "a\nb\nc\nd\ne";
+    const newCode = "a\nB\nc\nd\nE";
+    expect(computeHunks(oldCode, newCode, 10)).toEqual([
+      { from: 12, to: 14, oldFrom: 2, oldTo: 4, oldCode: "b\n", newCode: "B\n" },
+      { from: 18, to: 19, oldFrom: 8, oldTo: 9, oldCode: "e", newCode: "E" },
+    ]);
+  });
+
+  it("should group consecutive removed and added lines", () => {
+    expect(computeHunks("a\nb\nc\n", "a\nx\ny\nz\n", 0)).toEqual([
+      { from: 2, to: 8, oldFrom: 2, oldTo: 6, oldCode: "b\nc\n", newCode: "x\ny\nz\n" },
+    ]);
+  });
+
+  it("should handle pure insertions and deletions", () => {
+    expect(computeHunks("a\nc\n", "a\nb\nc\n", 0)).toEqual([
+      { from: 2, to: 4, oldFrom: 2, oldTo: 2, oldCode: "", newCode: "b\n" },
+    ]);
+    expect(computeHunks("a\nb\nc\n", "a\nc\n", 0)).toEqual([
+      { from: 2, to: 2, oldFrom: 2, oldTo: 4, oldCode: "b\n", newCode: "" },
+    ]);
+  });
+});
+
+describe("getHunks", () => {
+  it("should memoize hunks per completion", () => {
+    const completion = { from: 0, to: 3, oldCode: "a\nb", newCode: "a\nc" };
+    expect(getHunks(completion)).toBe(getHunks(completion));
+    expect(getHunks(completion)).toHaveLength(1);
+  });
+});
+
+describe("computeWordChanges", () => {
+  it("should find the changed words within a hunk", () => {
+    const { removed, added } = computeWordChanges({
+      oldCode: "const total = 1;\n",
+      newCode: "const sum = 1;\n",
+    });
+    expect(removed).toEqual([{ from: 6, to: 11 }]);
+    expect(added).toEqual([{ from: 6, to: 9 }]);
+  });
+
+  it("should not highlight words of pure insertions or deletions", () => {
+    expect(computeWordChanges({ oldCode: "", newCode: "a\n" })).toEqual({ removed: [], added: [] });
+    expect(computeWordChanges({ oldCode: "a\n", newCode: "" })).toEqual({ removed: [], added: [] });
+  });
+});
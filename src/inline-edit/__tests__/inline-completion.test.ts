@@ -1,11 +1,17 @@
-import { EditorSelection, EditorState } from "@codemirror/state";
+import { EditorSelection, EditorState, StateEffect } from "@codemirror/state";
 import { EditorView } from "@codemirror/view";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
   acceptInlineCompletion,
+  acceptInlineCompletionAtCursor,
+  acceptInlineCompletionLine,
+  acceptInlineCompletionWord,
   inlineCompletion,
+  nextInlineCompletion,
+  previousInlineCompletion,
   rejectInlineCompletion,
 } from "../inline-completion";
+import { SuggestionCache } from "../suggestion-cache";
 
 describe("inline-completion", () => {
   let view: EditorView;
@@ -159,6 +165,7 @@ describe("inline-completion events", () => {
     expect(mockEvents.onSuggestionAccepted).toHaveBeenCalledWith(
       expect.any(EditorView),
       "suggestion",
+      0,
     );
   });
 
@@ -174,6 +181,7 @@ describe("inline-completion events", () => {
     expect(mockEvents.onSuggestionRejected).toHaveBeenCalledWith(
       expect.any(EditorView),
       "suggestion",
+      0,
     );
   });
 
@@ -200,6 +208,419 @@ describe("inline-completion events", () => {
   });
 });
 
+describe("inline-completion alternatives", () => {
+  let view: EditorView;
+  const mockFetchFn = vi.fn().mockResolvedValue(["first", "second", "third"]);
+  const mockEvents = {
+    onSuggestionAccepted: vi.fn(),
+    onSuggestionRejected: vi.fn(),
+  };
+
+  beforeEach(() => {
+    const state = EditorState.create({
+      doc: "Hello world",
+      extensions: [
+        inlineCompletion({
+          fetchFn: mockFetchFn,
+          delay: 0,
+          events: mockEvents,
+        }),
+      ],
+    });
+
+    vi.useFakeTimers();
+    view = new EditorView({
+      state,
+      parent: document.createElement("div"),
+    });
+  });
+
+  afterEach(() => {
+    view.destroy();
+    vi.clearAllMocks();
+  });
+
+  async function suggest() {
+    view.dispatch({
+      changes: { from: 5, to: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+  }
+
+  it("should show the first candidate with an indicator", async () => {
+    await suggest();
+
+    const suggestion = view.dom.querySelector(".cm-inline-suggestion");
+    expect(suggestion?.firstChild?.textContent).toBe("first");
+    expect(view.dom.querySelector(".cm-inline-suggestion-count")?.textContent).toBe("1/3");
+  });
+
+  it("should cycle through candidates", async () => {
+    await suggest();
+
+    expect(nextInlineCompletion(view)).toBe(true);
+    expect(view.dom.querySelector(".cm-inline-suggestion-count")?.textContent).toBe("2/3");
+
+    expect(previousInlineCompletion(view)).toBe(true);
+    expect(previousInlineCompletion(view)).toBe(true);
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.firstChild?.textContent).toBe("third");
+    expect(view.dom.querySelector(".cm-inline-suggestion-count")?.textContent).toBe("3/3");
+  });
+
+  it("should report the chosen index when accepting", async () => {
+    await suggest();
+    nextInlineCompletion(view);
+
+    expect(acceptInlineCompletion(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("Hello second world");
+    expect(mockEvents.onSuggestionAccepted).toHaveBeenCalledWith(
+      expect.any(EditorView),
+      "second",
+      1,
+    );
+  });
+
+  it("should report the shown index when rejecting", async () => {
+    await suggest();
+    previousInlineCompletion(view);
+
+    expect(rejectInlineCompletion(view)).toBe(true);
+    expect(mockEvents.onSuggestionRejected).toHaveBeenCalledWith(
+      expect.any(EditorView),
+      "third",
+      2,
+    );
+  });
+
+  it("should not cycle a single suggestion", async () => {
+    mockFetchFn.mockResolvedValueOnce("only");
+    await suggest();
+
+    expect(nextInlineCompletion(view)).toBe(false);
+    expect(view.dom.querySelector(".cm-inline-suggestion-count")).toBeNull();
+  });
+  it("should report the whole candidate and its index after typing its start", async () => {
+    mockFetchFn.mockResolvedValueOnce(["abc", "xyz", "abd"]);
+    await suggest();
+    previousInlineCompletion(view);
+
+    view.dispatch({
+      changes: { from: 6, insert: "a" },
+      selection: { anchor: 7 },
+      userEvent: "input.type",
+    });
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.firstChild?.textContent).toBe("bd");
+    expect(view.dom.querySelector(".cm-inline-suggestion-count")?.textContent).toBe("2/2");
+
+    // "xyz" no longer matches, so cycling skips it
+    nextInlineCompletion(view);
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.firstChild?.textContent).toBe("bc");
+    previousInlineCompletion(view);
+
+    expect(acceptInlineCompletion(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("Hello abd world");
+    expect(mockEvents.onSuggestionAccepted).toHaveBeenCalledWith(expect.any(EditorView), "abd", 2);
+  });
+});
+
+describe("inline-completion partial accept", () => {
+  let view: EditorView;
+  const mockFetchFn = vi.fn().mockResolvedValue("foo(bar, baz)\n  return 1\n}");
+  const onSuggestionAccepted = vi.fn();
+
+  beforeEach(() => {
+    const state = EditorState.create({
+      doc: "Hello world",
+      extensions: [
+        inlineCompletion({
+          fetchFn: mockFetchFn,
+          delay: 0,
+          events: { onSuggestionAccepted },
+        }),
+      ],
+    });
+
+    vi.useFakeTimers();
+    view = new EditorView({
+      state,
+      parent: document.createElement("div"),
+    });
+  });
+
+  afterEach(() => {
+    view.destroy();
+    vi.clearAllMocks();
+    vi.clearAllTimers();
+  });
+
+  async function suggest() {
+    view.dispatch({
+      changes: { from: 5, to: 11, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+  }
+
+  const ghostText = () => view.dom.querySelector(".cm-inline-suggestion")?.textContent;
+
+  it("should accept the suggestion word by word", async () => {
+    await suggest();
+
+    expect(acceptInlineCompletionWord(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("Hello foo");
+    expect(ghostText()).toBe("(bar, baz)\n  return 1\n}");
+
+    acceptInlineCompletionWord(view);
+    acceptInlineCompletionWord(view);
+    expect(view.state.doc.toString()).toBe("Hello foo(bar");
+    expect(ghostText()).toBe(", baz)\n  return 1\n}");
+
+    // The rest is kept without fetching again
+    await vi.runAllTimersAsync();
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    expect(onSuggestionAccepted).not.toHaveBeenCalled();
+  });
+
+  it("should accept the suggestion line by line", async () => {
+    await suggest();
+
+    expect(acceptInlineCompletionLine(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("Hello foo(bar, baz)");
+    expect(ghostText()).toBe("\n  return 1\n}");
+
+    acceptInlineCompletionLine(view);
+    expect(view.state.doc.toString()).toBe("Hello foo(bar, baz)\n  return 1");
+    expect(view.state.selection.main.head).toBe(view.state.doc.length);
+
+    // The last line accepts the whole suggestion
+    acceptInlineCompletionLine(view);
+    expect(view.state.doc.toString()).toBe("Hello foo(bar, baz)\n  return 1\n}");
+    expect(onSuggestionAccepted).toHaveBeenCalledWith(
+      expect.any(EditorView),
+      "foo(bar, baz)\n  return 1\n}",
+      0,
+    );
+  });
+
+  it("should report the whole suggestion once all of it is accepted", async () => {
+    mockFetchFn.mockResolvedValueOnce("foo bar");
+    await suggest();
+
+    acceptInlineCompletionWord(view);
+    acceptInlineCompletionWord(view);
+    expect(view.state.doc.toString()).toBe("Hello foo bar");
+    expect(onSuggestionAccepted).toHaveBeenCalledTimes(1);
+    expect(onSuggestionAccepted).toHaveBeenCalledWith(expect.any(EditorView), "foo bar", 0);
+  });
+
+  it("should accept a line break with its indentation as a word", async () => {
+    await suggest();
+    acceptInlineCompletionLine(view);
+
+    acceptInlineCompletionWord(view);
+    expect(view.state.doc.toString()).toBe("Hello foo(bar, baz)\n  ");
+    expect(ghostText()).toBe("return 1\n}");
+  });
+
+  it("should do nothing without a suggestion", () => {
+    expect(acceptInlineCompletionWord(view)).toBe(false);
+    expect(acceptInlineCompletionLine(view)).toBe(false);
+  });
+});
+
+describe("inline-completion multiple cursors", () => {
+  let view: EditorView;
+  // Suggests "_" followed by the text of the cursor's line
+  const mockFetchFn = vi.fn(async (state: EditorState) => {
+    const line = state.doc.lineAt(state.selection.main.head);
+    return `_${line.text.trim()}`;
+  });
+  const onSuggestionAccepted = vi.fn();
+
+  beforeEach(() => {
+    const state = EditorState.create({
+      doc: "a\nb\nc",
+      extensions: [
+        EditorState.allowMultipleSelections.of(true),
+        inlineCompletion({
+          fetchFn: mockFetchFn,
+          delay: 0,
+          events: { onSuggestionAccepted },
+        }),
+      ],
+    });
+
+    vi.useFakeTimers();
+    view = new EditorView({
+      state,
+      parent: document.createElement("div"),
+    });
+  });
+
+  afterEach(() => {
+    view.destroy();
+    vi.clearAllMocks();
+  });
+
+  async function suggest() {
+    // Type "x" at the end of each line
+    view.dispatch({
+      changes: [
+        { from: 1, insert: "x" },
+        { from: 3, insert: "x" },
+        { from: 5, insert: "x" },
+      ],
+      selection: EditorSelection.create(
+        [EditorSelection.cursor(2), EditorSelection.cursor(5), EditorSelection.cursor(8)],
+        1,
+      ),
+    });
+    await vi.runAllTimersAsync();
+  }
+
+  it("should fetch and show a suggestion at each cursor", async () => {
+    await suggest();
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(3);
+    // Each call sees its cursor as the main selection
+    const heads = mockFetchFn.mock.calls.map(([state]) => state.selection.main.head);
+    expect(heads).toEqual([5, 2, 8]);
+
+    const suggestions = view.dom.querySelectorAll(".cm-inline-suggestion");
+    expect(Array.from(suggestions, (el) => el.textContent)).toEqual(["_ax", "_bx", "_cx"]);
+  });
+
+  it("should accept all suggestions together", async () => {
+    await suggest();
+
+    expect(acceptInlineCompletion(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("ax_ax\nbx_bx\ncx_cx");
+    expect(onSuggestionAccepted).toHaveBeenCalledTimes(3);
+  });
+
+  it("should accept the suggestion at the main cursor only", async () => {
+    await suggest();
+
+    expect(acceptInlineCompletionAtCursor(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("ax\nbx_bx\ncx");
+    expect(onSuggestionAccepted).toHaveBeenCalledWith(expect.any(EditorView), "_bx", 0);
+
+    // The other suggestions stay at their cursors
+    const suggestions = view.dom.querySelectorAll(".cm-inline-suggestion");
+    expect(Array.from(suggestions, (el) => el.textContent)).toEqual(["_ax", "_cx"]);
+    expect(view.state.selection.ranges.map((range) => range.head)).toEqual([2, 8, 11]);
+  });
+
+  it("should limit the number of cursors fetched for", async () => {
+    view.dispatch({
+      effects: StateEffect.reconfigure.of([
+        EditorState.allowMultipleSelections.of(true),
+        inlineCompletion({ fetchFn: mockFetchFn, delay: 0, maxCursors: 2 }),
+      ]),
+    });
+    await suggest();
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+    expect(view.dom.querySelectorAll(".cm-inline-suggestion")).toHaveLength(2);
+  });
+});
+
+describe("inline-completion typing through suggestions", () => {
+  let view: EditorView;
+  const mockFetchFn = vi.fn().mockResolvedValue("suggestion");
+
+  beforeEach(() => {
+    const state = EditorState.create({
+      doc: "Hello world",
+      extensions: [
+        inlineCompletion({
+          fetchFn: mockFetchFn,
+          delay: 0,
+        }),
+      ],
+    });
+
+    vi.useFakeTimers();
+    view = new EditorView({
+      state,
+      parent: document.createElement("div"),
+    });
+  });
+
+  afterEach(() => {
+    view.destroy();
+    vi.clearAllMocks();
+  });
+
+  async function suggest() {
+    view.dispatch({
+      changes: { from: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+  }
+
+  function type(text: string) {
+    const head = view.state.selection.main.head;
+    view.dispatch({
+      changes: { from: head, insert: text },
+      selection: { anchor: head + text.length },
+      userEvent: "input.type",
+    });
+  }
+
+  const ghostText = () => view.dom.querySelector(".cm-inline-suggestion")?.textContent;
+
+  it("should keep the rest of the suggestion when typing its start", async () => {
+    await suggest();
+
+    type("s");
+    type("ug");
+    expect(ghostText()).toBe("gestion");
+
+    await vi.runAllTimersAsync();
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+
+    acceptInlineCompletion(view);
+    expect(view.state.doc.toString()).toBe("Hello suggestion world");
+
+    // Accepting the rest fetches the next suggestion
+    await vi.runAllTimersAsync();
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop the suggestion when typing something else", async () => {
+    await suggest();
+
+    type("x");
+    expect(ghostText()).toBeUndefined();
+
+    await vi.runAllTimersAsync();
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop the suggestion when deleting", async () => {
+    await suggest();
+
+    view.dispatch({ changes: { from: 5, to: 6 } });
+    expect(ghostText()).toBeUndefined();
+
+    await vi.runAllTimersAsync();
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fetch again once the whole suggestion is typed", async () => {
+    await suggest();
+
+    type("suggestion");
+    expect(ghostText()).toBeUndefined();
+
+    await vi.runAllTimersAsync();
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+  });
+});
+
 describe("inline-completion cache", () => {
   let view: EditorView;
   const mockFetchFn = vi.fn().mockResolvedValue("suggestion");
@@ -244,6 +665,78 @@ describe("inline-completion cache", () => {
     expect(mockFetchFn).toHaveBeenCalledTimes(1);
   });
 
+  it("should reuse suggestions for the same text around the cursor", async () => {
+    const cache = new SuggestionCache({ ttl: 1000 });
+    view.dispatch({
+      effects: StateEffect.reconfigure.of(
+        inlineCompletion({ fetchFn: mockFetchFn, delay: 0, cache }),
+      ),
+    });
+
+    view.dispatch({
+      changes: { from: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+
+    // Undo the change, and do it again
+    view.dispatch({ changes: { from: 5, to: 6 }, selection: { anchor: 5 } });
+    await vi.runAllTimersAsync();
+    view.dispatch({
+      changes: { from: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(2);
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 2 });
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("suggestion");
+  });
+
+  it("should share a cache across editors", async () => {
+    const cache = new SuggestionCache();
+    const createView = () =>
+      new EditorView({
+        state: EditorState.create({
+          doc: "Hello world",
+          extensions: inlineCompletion({ fetchFn: mockFetchFn, delay: 0, cache }),
+        }),
+        parent: document.createElement("div"),
+      });
+    const first = createView();
+    const second = createView();
+
+    for (const editor of [first, second]) {
+      editor.dispatch({ changes: { from: 5, insert: " " }, selection: { anchor: 6 } });
+      await vi.runAllTimersAsync();
+    }
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    expect(second.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("suggestion");
+
+    first.destroy();
+    second.destroy();
+  });
+
+  it("should keep suggestions apart by context key", async () => {
+    let context = "a";
+    view.dispatch({
+      effects: StateEffect.reconfigure.of(
+        inlineCompletion({ fetchFn: mockFetchFn, delay: 0, cacheContextKey: () => context }),
+      ),
+    });
+
+    view.dispatch({ changes: { from: 5, insert: " " }, selection: { anchor: 6 } });
+    await vi.runAllTimersAsync();
+    view.dispatch({ changes: { from: 5, to: 6 }, selection: { anchor: 5 } });
+    await vi.runAllTimersAsync();
+
+    context = "b";
+    view.dispatch({ changes: { from: 5, insert: " " }, selection: { anchor: 6 } });
+    await vi.runAllTimersAsync();
+
+    expect(mockFetchFn).toHaveBeenCalledTimes(3);
+  });
+
   it("should invalidate cache after timeout", async () => {
     // First change
     view.dispatch({
@@ -263,3 +756,106 @@ describe("inline-completion cache", () => {
     expect(mockFetchFn).toHaveBeenCalledTimes(2);
   });
 });
+
+describe("inline-completion streaming", () => {
+  let view: EditorView;
+  let release: () => void;
+
+  async function* streamFn() {
+    yield "sugg";
+    await new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    yield "estion";
+  }
+
+  const mockFetchFn = vi.fn(streamFn);
+
+  beforeEach(() => {
+    const state = EditorState.create({
+      doc: "Hello world",
+      extensions: [
+        inlineCompletion({
+          fetchFn: mockFetchFn,
+          delay: 0,
+        }),
+      ],
+    });
+
+    vi.useFakeTimers();
+    view = new EditorView({
+      state,
+      parent: document.createElement("div"),
+    });
+  });
+
+  afterEach(() => {
+    view.destroy();
+    vi.clearAllMocks();
+  });
+
+  it("should grow the ghost text as chunks arrive", async () => {
+    view.dispatch({
+      changes: { from: 5, to: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+
+    let suggestion = view.dom.querySelector(".cm-inline-suggestion");
+    expect(suggestion?.textContent).toBe("sugg");
+
+    release();
+    await vi.runAllTimersAsync();
+
+    suggestion = view.dom.querySelector(".cm-inline-suggestion");
+    expect(suggestion?.textContent).toBe("suggestion");
+
+    acceptInlineCompletion(view);
+    expect(view.state.doc.toString()).toBe("Hello suggestion world");
+  });
+
+  it("should stop streaming when the document changes", async () => {
+    view.dispatch({
+      changes: { from: 5, to: 5, insert: " " },
+    });
+    await vi.runAllTimersAsync();
+
+    const signal = mockFetchFn.mock.calls[0]?.[1];
+    view.dispatch({
+      changes: { from: 6, to: 6, insert: "x" },
+    });
+    expect(signal?.aborted).toBe(true);
+
+    // The first stream's remaining chunks are dropped
+    const firstRelease = release;
+    await vi.runAllTimersAsync();
+    firstRelease();
+    await vi.runAllTimersAsync();
+
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("sugg");
+  });
+  it("should keep streaming while the suggestion is typed through", async () => {
+    view.dispatch({
+      changes: { from: 5, to: 5, insert: " " },
+      selection: { anchor: 6 },
+    });
+    await vi.runAllTimersAsync();
+
+    const signal = mockFetchFn.mock.calls[0]?.[1];
+    view.dispatch({
+      changes: { from: 6, to: 6, insert: "su" },
+      selection: { anchor: 8 },
+      userEvent: "input.type",
+    });
+    expect(signal?.aborted).toBe(false);
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("gg");
+
+    release();
+    await vi.runAllTimersAsync();
+
+    expect(view.dom.querySelector(".cm-inline-suggestion")?.textContent).toBe("ggestion");
+    expect(mockFetchFn).toHaveBeenCalledTimes(1);
+    acceptInlineCompletion(view);
+    expect(view.state.doc.toString()).toBe("Hello suggestion world");
+  });
+});
@@ -0,0 +1,565 @@
+import { EditorSelection, EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  acceptAiEdit,
+  acceptAiEditHunk,
+  cancelAiEditSession,
+  cycleAiEditAlternative,
+  refineAiEditSession,
+  regenerateAiEdit,
+  rejectAiEdit,
+  rejectAiEditHunk,
+  showAiEditInput,
+} from "../commands";
+import { aiExtension } from "../inline-edit";
+import { type AiOptions, type CompleteFunction, sessionsState } from "../state";
+
+const doc = "line 1\nline 2\nline 3";
+
+function createEditor(
+  prompt: CompleteFunction,
+  initialDoc = doc,
+  options: Partial<AiOptions> = {},
+) {
+  return new EditorView({
+    state: EditorState.create({
+      doc: initialDoc,
+      extensions: [aiExtension({ prompt, ...options })],
+    }),
+    parent: document.body.appendChild(document.createElement("div")),
+  });
+}
+
+/** Selects the given range, opens the input and submits the prompt */
+async function submitPrompt(view: EditorView, from: number, to: number, prompt = "edit") {
+  view.dispatch({ selection: EditorSelection.single(from, to) });
+  showAiEditInput(view);
+  // Find the input of the session that was just opened
+  const session = view.state.field(sessionsState).at(-1);
+  const line = session && view.domAtPos(session.from).node;
+  const input = (line instanceof HTMLElement ? line : line?.parentElement)
+    ?.closest(".cm-line")
+    ?.querySelector<HTMLInputElement>(".cm-ai-input");
+  if (!input) throw new Error("input not rendered");
+  input.value = prompt;
+  input.dispatchEvent(new Event("input"));
+  input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+}
+
+/** The most recent session, if any */
+function lastSession(view: EditorView) {
+  return view.state.field(sessionsState).at(-1);
+}
+
+/** Flush pending promise callbacks */
+async function flush() {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe("inline-edit", () => {
+  let view: EditorView;
+
+  afterEach(() => {
+    view?.destroy();
+  });
+
+  it("should replace the selected lines with the result", async () => {
+    view = createEditor(async () => "new line 2");
+    await submitPrompt(view, 8, 10);
+    await flush();
+
+    expect(view.state.doc.toString()).toBe("line 1\nnew line 2\nline 3");
+    expect(lastSession(view)).toMatchObject({
+      from: 7,
+      to: 17,
+      oldCode: "line 2",
+      newCode: "new line 2",
+      showInput: false,
+      loading: false,
+    });
+  });
+
+  it("should restore the old code on reject", async () => {
+    view = createEditor(async () => "new line 2");
+    await submitPrompt(view, 8, 10);
+    await flush();
+
+    expect(rejectAiEdit(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe(doc);
+    expect(lastSession(view)).toBeUndefined();
+  });
+
+  it("should keep the new code on accept", async () => {
+    view = createEditor(async () => "new line 2");
+    await submitPrompt(view, 8, 10);
+    await flush();
+
+    expect(acceptAiEdit(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe("line 1\nnew line 2\nline 3");
+    expect(lastSession(view)).toBeUndefined();
+  });
+
+  describe("hunks", () => {
+    const multiDoc = "a\nb\nc\nd\ne";
+    const result = "a\nB\nc\nd\nE";
+
+    it("should render one old-code block per hunk", async () => {
+      view = createEditor(async () => result, multiDoc);
+      await submitPrompt(view, 0, multiDoc.length);
+      await flush();
+
+      const blocks = view.dom.querySelectorAll(".cm-old-code-container");
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0]?.querySelector(".cm-old-code")?.textContent).toBe("b");
+      expect(blocks[1]?.querySelector(".cm-old-code")?.textContent).toBe("e");
+      // Only the first hunk offers accept/reject all
+      expect(blocks[0]?.querySelectorAll(".cm-floating-all")).toHaveLength(2);
+      expect(blocks[1]?.querySelectorAll(".cm-floating-all")).toHaveLength(0);
+    });
+
+    it("should only highlight the changed lines", async () => {
+      view = createEditor(async () => result, multiDoc);
+      await submitPrompt(view, 0, multiDoc.length);
+      await flush();
+
+      const lines = Array.from(view.dom.querySelectorAll(".cm-new-code-line"));
+      expect(lines.map((line) => line.textContent)).toEqual(["B", "E"]);
+      expect(view.dom.querySelectorAll(".cm-new-code-word")).toHaveLength(0);
+    });
+
+    it("should render each removed line separately", async () => {
+      view = createEditor(async () => "x", "a\nb");
+      await submitPrompt(view, 0, 3);
+      await flush();
+
+      const lines = view.dom.querySelectorAll(".cm-old-code-line");
+      expect(Array.from(lines).map((line) => line.textContent)).toEqual(["a", "b"]);
+    });
+
+    it("should highlight changed words when enabled", async () => {
+      view = createEditor(async () => "let total = 1", "let sum = 1", { wordDiff: true });
+      await submitPrompt(view, 0, 3);
+      await flush();
+
+      expect(view.dom.querySelector(".cm-new-code-word")?.textContent).toBe("total");
+      expect(view.dom.querySelector(".cm-old-code-word")?.textContent).toBe("sum");
+    });
+
+    it("should reject a single hunk and keep the others pending", async () => {
+      view = createEditor(async () => result, multiDoc);
+      await submitPrompt(view, 0, multiDoc.length);
+      await flush();
+
+      expect(rejectAiEditHunk(view, 1)).toBe(true);
+      expect(view.state.doc.toString()).toBe("a\nB\nc\nd\ne");
+      expect(lastSession(view)?.newCode).toBe("a\nB\nc\nd\ne");
+
+      expect(acceptAiEditHunk(view, 0)).toBe(true);
+      expect(view.state.doc.toString()).toBe("a\nB\nc\nd\ne");
+      expect(lastSession(view)).toBeUndefined();
+    });
+
+    it("should accept a single hunk and reject the rest", async () => {
+      view = createEditor(async () => result, multiDoc);
+      await submitPrompt(view, 0, multiDoc.length);
+      await flush();
+
+      expect(acceptAiEditHunk(view, 0)).toBe(true);
+      expect(lastSession(view)?.oldCode).toBe("a\nB\nc\nd\ne");
+      expect(view.dom.querySelectorAll(".cm-old-code-container")).toHaveLength(1);
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe("a\nB\nc\nd\ne");
+    });
+
+    it("should ignore unknown hunks", async () => {
+      view = createEditor(async () => result, multiDoc);
+      await submitPrompt(view, 0, multiDoc.length);
+      await flush();
+
+      expect(acceptAiEditHunk(view, 5)).toBe(false);
+      expect(rejectAiEditHunk(view, 5)).toBe(false);
+    });
+  });
+
+  describe("sessions", () => {
+    function deferredPrompt() {
+      const resolvers: Array<(value: string) => void> = [];
+      const prompt = vi.fn<CompleteFunction>(
+        () => new Promise<string>((resolve) => resolvers.push(resolve)),
+      );
+      return { prompt, resolvers };
+    }
+
+    it("should run several edits at once", async () => {
+      const { prompt, resolvers } = deferredPrompt();
+      view = createEditor(prompt);
+      await submitPrompt(view, 0, 2, "first");
+      await submitPrompt(view, 15, 17, "second");
+      await flush();
+
+      const sessions = view.state.field(sessionsState);
+      expect(sessions).toHaveLength(2);
+      expect(sessions.every((session) => session.loading)).toBe(true);
+      expect(view.dom.querySelectorAll(".cm-ai-input-container")).toHaveLength(2);
+
+      // The second edit finishes first and shifts nothing above it
+      resolvers[1]?.("new line 3");
+      await flush();
+      resolvers[0]?.("first line\nextra");
+      await flush();
+
+      expect(view.state.doc.toString()).toBe("first line\nextra\nline 2\nnew line 3");
+      const [first, second] = view.state.field(sessionsState);
+      expect(first).toMatchObject({ from: 0, to: 16, newCode: "first line\nextra" });
+      // The second session's range was mapped through the first edit
+      expect(second).toMatchObject({ from: 24, to: 34, newCode: "new line 3" });
+      expect(view.state.sliceDoc(second?.from, second?.to)).toBe("new line 3");
+    });
+
+    it("should target the session under the cursor", async () => {
+      const { prompt, resolvers } = deferredPrompt();
+      view = createEditor(prompt);
+      await submitPrompt(view, 0, 2, "first");
+      await submitPrompt(view, 15, 17, "second");
+      resolvers[0]?.("LINE 1");
+      resolvers[1]?.("LINE 3");
+      await flush();
+
+      view.dispatch({ selection: { anchor: 1 } });
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe("line 1\nline 2\nLINE 3");
+      expect(view.state.field(sessionsState)).toHaveLength(1);
+
+      // Without a session under the cursor, the most recent one is used
+      view.dispatch({ selection: { anchor: 8 } });
+      expect(acceptAiEdit(view)).toBe(true);
+      expect(view.state.field(sessionsState)).toHaveLength(0);
+    });
+
+    it("should not open overlapping sessions", async () => {
+      const { prompt } = deferredPrompt();
+      view = createEditor(prompt);
+      await submitPrompt(view, 0, 2);
+
+      // Refocuses the existing input instead
+      view.dispatch({ selection: EditorSelection.single(1, 9) });
+      expect(showAiEditInput(view)).toBe(true);
+      expect(view.state.field(sessionsState)).toHaveLength(1);
+    });
+
+    it("should abort only the cancelled session", async () => {
+      const { prompt } = deferredPrompt();
+      view = createEditor(prompt);
+      await submitPrompt(view, 0, 2, "first");
+      await submitPrompt(view, 15, 17, "second");
+      await flush();
+
+      const [first] = view.state.field(sessionsState);
+      expect(first && cancelAiEditSession(view, first.id)).toBe(true);
+
+      expect(prompt.mock.calls[0]?.[0].signal?.aborted).toBe(true);
+      expect(prompt.mock.calls[1]?.[0].signal?.aborted).toBe(false);
+      expect(view.state.field(sessionsState)).toHaveLength(1);
+    });
+  });
+
+  describe("follow-ups", () => {
+    it("should refine a pending edit with the conversation so far", async () => {
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("LINE 2")
+        .mockResolvedValueOnce("LINE 2 // typed");
+      view = createEditor(prompt);
+      await submitPrompt(view, 7, 13, "uppercase");
+      await flush();
+
+      const input = view.dom.querySelector<HTMLInputElement>(".cm-ai-refine-input");
+      expect(input).not.toBeNull();
+      if (!input) return;
+      input.value = "add a comment";
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+      await flush();
+
+      expect(prompt.mock.calls[1]?.[0]).toMatchObject({
+        prompt: "add a comment",
+        selection: "line 2",
+        proposal: "LINE 2",
+        history: [{ prompt: "uppercase", response: "LINE 2" }],
+      });
+      expect(view.state.doc.toString()).toBe("line 1\nLINE 2 // typed\nline 3");
+      expect(lastSession(view)).toMatchObject({
+        oldCode: "line 2",
+        newCode: "LINE 2 // typed",
+        showInput: false,
+        turns: [
+          { prompt: "uppercase", response: "LINE 2" },
+          { prompt: "add a comment", response: "LINE 2 // typed" },
+        ],
+      });
+
+      // Rejecting goes back to the original code
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(doc);
+    });
+
+    it("should keep the proposal when a follow-up is cancelled", async () => {
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("LINE 2")
+        .mockImplementationOnce(() => new Promise(() => {}));
+      view = createEditor(prompt);
+      await submitPrompt(view, 7, 13);
+      await flush();
+
+      const session = lastSession(view);
+      if (!session) throw new Error("no session");
+      void refineAiEditSession(view, session.id, "again");
+      await flush();
+      expect(lastSession(view)).toMatchObject({ loading: true, showInput: true });
+
+      expect(cancelAiEditSession(view, session.id)).toBe(true);
+      expect(prompt.mock.calls[1]?.[0].signal?.aborted).toBe(true);
+      expect(lastSession(view)).toMatchObject({ loading: false, newCode: "LINE 2" });
+      expect(view.state.doc.toString()).toBe("line 1\nLINE 2\nline 3");
+    });
+  });
+
+  describe("regenerate", () => {
+    it("should re-run the last prompt against the original code", async () => {
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("LINE 2")
+        .mockResolvedValueOnce("Line 2");
+      view = createEditor(prompt);
+      await submitPrompt(view, 7, 13, "capitalize");
+      await flush();
+
+      view.dom.querySelector<HTMLButtonElement>(".cm-ai-regenerate-button")?.click();
+      await flush();
+
+      const first = prompt.mock.calls[0]?.[0];
+      const second = prompt.mock.calls[1]?.[0];
+      expect(first).toMatchObject({ prompt: "capitalize", selection: "line 2", attempt: 1 });
+      expect(second).toMatchObject({ prompt: "capitalize", selection: "line 2", attempt: 2 });
+      expect(second?.signal).not.toBe(first?.signal);
+      expect(second?.proposal).toBeUndefined();
+
+      expect(view.state.doc.toString()).toBe("line 1\nLine 2\nline 3");
+      expect(lastSession(view)).toMatchObject({
+        oldCode: "line 2",
+        alternatives: ["LINE 2", "Line 2"],
+        alternativeIndex: 1,
+        turns: [{ prompt: "capitalize", response: "Line 2" }],
+      });
+      expect(view.dom.querySelector(".cm-ai-alternative-count")?.textContent).toBe("2/2");
+    });
+
+    it("should cycle through earlier results", async () => {
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("LINE 2")
+        .mockResolvedValueOnce("Line 2");
+      view = createEditor(prompt);
+      await submitPrompt(view, 7, 13);
+      await flush();
+      expect(regenerateAiEdit(view)).toBe(true);
+      await flush();
+
+      const session = lastSession(view);
+      if (!session) throw new Error("no session");
+      expect(cycleAiEditAlternative(view, session.id, -1)).toBe(true);
+      expect(view.state.doc.toString()).toBe("line 1\nLINE 2\nline 3");
+      expect(view.dom.querySelector(".cm-ai-alternative-count")?.textContent).toBe("1/2");
+
+      // Wraps around
+      expect(cycleAiEditAlternative(view, session.id, -1)).toBe(true);
+      expect(view.state.doc.toString()).toBe("line 1\nLine 2\nline 3");
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(doc);
+    });
+
+    it("should keep the current result when a regeneration is cancelled early", async () => {
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("LINE 2")
+        .mockReturnValueOnce(
+          new Promise<string>(() => {
+            // never resolves
+          }),
+        );
+      view = createEditor(prompt);
+      await submitPrompt(view, 7, 13);
+      await flush();
+      expect(regenerateAiEdit(view)).toBe(true);
+      await flush();
+
+      const session = lastSession(view);
+      if (!session) throw new Error("no session");
+      expect(cancelAiEditSession(view, session.id)).toBe(true);
+
+      expect(lastSession(view)).toMatchObject({
+        newCode: "LINE 2",
+        alternatives: ["LINE 2"],
+        alternativeIndex: 0,
+      });
+      expect(view.dom.querySelector(".cm-ai-alternative-count")).toBeNull();
+      expect(cycleAiEditAlternative(view, session.id, 1)).toBe(false);
+    });
+
+    it("should keep edits to a result when cycling", async () => {
+      const prompt = vi
+        .fn<CompleteFunction>()
+        .mockResolvedValueOnce("LINE 2")
+        .mockResolvedValueOnce("Line 2");
+      view = createEditor(prompt);
+      await submitPrompt(view, 7, 13);
+      await flush();
+      regenerateAiEdit(view);
+      await flush();
+
+      view.dispatch({ changes: { from: 13, insert: "!" } });
+      const session = lastSession(view);
+      if (!session) throw new Error("no session");
+      cycleAiEditAlternative(view, session.id, 1);
+      cycleAiEditAlternative(view, session.id, 1);
+      expect(view.state.doc.toString()).toBe("line 1\nLine 2!\nline 3");
+    });
+  });
+
+  describe("document changes", () => {
+    async function pendingEdit(newCode: string) {
+      view = createEditor(async () => newCode);
+      await submitPrompt(view, 7, 13);
+      await flush();
+      return view;
+    }
+
+    it("should follow edits above a pending edit", async () => {
+      const view = await pendingEdit("LINE 2");
+      view.dispatch({ changes: { from: 0, insert: "// header\n" } });
+
+      expect(lastSession(view)).toMatchObject({ from: 17, to: 23, newCode: "LINE 2" });
+      expect(view.dom.querySelector(".cm-old-code")?.textContent).toBe("line 2");
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe("// header\nline 1\nline 2\nline 3");
+    });
+
+    it("should grow to include edits inside a pending edit", async () => {
+      const view = await pendingEdit("LINE 2");
+      view.dispatch({ changes: { from: 11, insert: "-x" } });
+
+      expect(lastSession(view)).toMatchObject({ from: 7, to: 15, newCode: "LINE-x 2" });
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(doc);
+    });
+
+    it("should grow to include edits at the end of a pending edit", async () => {
+      const view = await pendingEdit("LINE 2");
+      view.dispatch({ changes: { from: 13, insert: "!" } });
+
+      expect(lastSession(view)).toMatchObject({ from: 7, to: 14, newCode: "LINE 2!" });
+    });
+
+    it("should drop a pending edit whose code is deleted", async () => {
+      const view = await pendingEdit("LINE 2");
+      view.dispatch({ changes: { from: 6, to: 13 } });
+
+      expect(view.state.field(sessionsState)).toHaveLength(0);
+      expect(view.state.doc.toString()).toBe("line 1\nline 3");
+    });
+  });
+
+  describe("streaming", () => {
+    function controlledStream() {
+      const chunks: Array<(value: IteratorResult<string>) => void> = [];
+      const pending: Array<Promise<IteratorResult<string>>> = [];
+      const push = () => {
+        pending.push(new Promise((resolve) => chunks.push(resolve)));
+      };
+      push();
+      let index = 0;
+      const iterable: AsyncIterable<string> = {
+        [Symbol.asyncIterator]: () => ({
+          next: () => {
+            const next = pending[index++];
+            if (!next) throw new Error("unexpected read");
+            return next;
+          },
+          return: async () => ({ done: true, value: undefined }),
+        }),
+      };
+      return {
+        iterable,
+        send: (value: string) => {
+          push();
+          chunks.shift()?.({ done: false, value });
+        },
+        end: () => {
+          chunks.shift()?.({ done: true, value: undefined });
+        },
+      };
+    }
+
+    it("should write chunks into the document as they arrive", async () => {
+      const stream = controlledStream();
+      view = createEditor(() => stream.iterable);
+      await submitPrompt(view, 8, 10);
+      await flush();
+
+      stream.send("new ");
+      await flush();
+      expect(view.state.doc.toString()).toBe("line 1\nnew \nline 3");
+      expect(lastSession(view)?.to).toBe(11);
+      expect(lastSession(view)?.loading).toBe(true);
+
+      stream.send("line 2\nextra");
+      await flush();
+      expect(view.state.doc.toString()).toBe("line 1\nnew line 2\nextra\nline 3");
+      expect(lastSession(view)?.to).toBe(23);
+      expect(lastSession(view)?.showInput).toBe(true);
+
+      stream.end();
+      await flush();
+      expect(lastSession(view)).toMatchObject({
+        from: 7,
+        to: 23,
+        oldCode: "line 2",
+        newCode: "new line 2\nextra",
+        showInput: false,
+        loading: false,
+      });
+
+      expect(rejectAiEdit(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(doc);
+    });
+
+    it("should keep the partial output when cancelled", async () => {
+      const stream = controlledStream();
+      const prompt = vi.fn<CompleteFunction>(() => stream.iterable);
+      view = createEditor(prompt);
+      await submitPrompt(view, 8, 10);
+      await flush();
+
+      stream.send("partial");
+      await flush();
+
+      view.dom.querySelector<HTMLButtonElement>(".cm-ai-cancel-button")?.click();
+      expect(prompt.mock.calls[0]?.[0].signal?.aborted).toBe(true);
+
+      stream.send(" ignored");
+      await flush();
+
+      expect(view.state.doc.toString()).toBe("line 1\npartial\nline 3");
+      expect(lastSession(view)?.newCode).toBe("partial");
+      expect(lastSession(view)?.showInput).toBe(false);
+      expect(lastSession(view)?.loading).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { isTextStream, readTextStream, stripCodeFenceStream, stripCodeFences } from "../stream";
+
+async function collect(iterable: AsyncIterable<string>) {
+  const chunks: string[] = [];
+  for await (const chunk of iterable) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+async function* generate(chunks: string[]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+function readable(chunks: string[]) {
+  return new ReadableStream<string>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+describe("isTextStream", () => {
+  it("should detect async iterables and readable streams", () => {
+    expect(isTextStream(generate([]))).toBe(true);
+    expect(isTextStream(readable([]))).toBe(true);
+  });
+
+  it("should reject strings and other values", () => {
+    expect(isTextStream("hello")).toBe(false);
+    expect(isTextStream(null)).toBe(false);
+    expect(isTextStream({})).toBe(false);
+  });
+});
+
+describe("readTextStream", () => {
+  it("should read chunks from an async iterable", async () => {
+    expect(await collect(readTextStream(generate(["a", "b", "c"])))).toEqual(["a", "b", "c"]);
+  });
+
+  it("should read chunks from a readable stream", async () => {
+    expect(await collect(readTextStream(readable(["a", "b", "c"])))).toEqual(["a", "b", "c"]);
+  });
+
+  it("should skip empty chunks", async () => {
+    expect(await collect(readTextStream(generate(["a", "", "b"])))).toEqual(["a", "b"]);
+  });
+
+  it("should stop reading once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    for await (const chunk of readTextStream(generate(["a", "b", "c"]), controller.signal)) {
+      chunks.push(chunk);
+      controller.abort();
+    }
+    expect(chunks).toEqual(["a"]);
+  });
+
+  it("should return the iterator when aborted", async () => {
+    let finished = false;
+    async function* source() {
+      try {
+        yield "a";
+        yield "b";
+      } finally {
+        finished = true;
+      }
+    }
+    const controller = new AbortController();
+    for await (const _chunk of readTextStream(source(), controller.signal)) {
+      controller.abort();
+    }
+    expect(finished).toBe(true);
+  });
+});
+
+describe("stripCodeFences", () => {
+  it("should remove a surrounding code fence", () => {
+    expect(stripCodeFences("```python\nx = 1\ny = 2\n```")).toBe("x = 1\ny = 2");
+    expect(stripCodeFences("\n```\nx = 1\n```\n")).toBe("x = 1");
+  });
+
+  it("should leave text without a fence as is", () => {
+    expect(stripCodeFences("x = 1\n")).toBe("x = 1\n");
+    expect(stripCodeFences("x = '```'")).toBe("x = '```'");
+  });
+});
+
+describe("stripCodeFenceStream", () => {
+  it("should remove a fence split across chunks", async () => {
+    const chunks = await collect(
+      stripCodeFenceStream(generate(["``", "`py", "thon\nx = ", "1\ny", " = 2\n`", "``"])),
+    );
+    expect(chunks.join("")).toBe("x = 1\ny = 2");
+  });
+
+  it("should pass unfenced chunks through right away", async () => {
+    const chunks = await collect(stripCodeFenceStream(generate(["x = ", "1\n", "y = 2"])));
+    expect(chunks).toEqual(["x = ", "1\n", "y = 2"]);
+  });
+
+  it("should keep backticks inside the code", async () => {
+    const chunks = await collect(
+      stripCodeFenceStream(generate(["```md\n", "a ```b```\n", "c\n```"])),
+    );
+    expect(chunks.join("")).toBe("a ```b```\nc");
+  });
+});
@@ -0,0 +1,112 @@
+import { EditorState } from "@codemirror/state";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SuggestionCache, type SuggestionCacheKey, suggestionCacheKey } from "../suggestion-cache";
+
+const key = (prefix: string, context = ""): SuggestionCacheKey => ({
+  prefix,
+  suffix: "",
+  context,
+});
+
+describe("suggestionCacheKey", () => {
+  it("should key on a window of text around the cursor", () => {
+    const far = "x".repeat(2000);
+    const state = EditorState.create({ doc: `${far}a; const x = 1;` });
+    const edited = EditorState.create({ doc: `${far}b; const x = 1;` });
+
+    const pos = state.doc.length - 5;
+    expect(suggestionCacheKey(state, pos)).toEqual({
+      prefix: state.doc.sliceString(pos - 1000, pos),
+      suffix: " = 1;",
+      context: "",
+    });
+    // Edits outside the window don't change the key
+    const farEdited = EditorState.create({ doc: `y${far.slice(1)}a; const x = 1;` });
+    expect(suggestionCacheKey(farEdited, pos)).toEqual(suggestionCacheKey(state, pos));
+    expect(suggestionCacheKey(edited, pos)).not.toEqual(suggestionCacheKey(state, pos));
+  });
+
+  it("should include the context key", () => {
+    const state = EditorState.create({ doc: "const x = 1;" });
+    expect(suggestionCacheKey(state, 5, "a.py").context).toBe("a.py");
+  });
+});
+
+describe("SuggestionCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count hits and misses", () => {
+    const cache = new SuggestionCache();
+
+    expect(cache.get(key("key"))).toBeNull();
+    cache.set(key("key"), ["suggestion"]);
+    expect(cache.get(key("key"))).toEqual(["suggestion"]);
+
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, size: 1 });
+  });
+
+  it("should expire suggestions after the TTL", () => {
+    const cache = new SuggestionCache({ ttl: 1000 });
+    cache.set(key("key"), ["suggestion"]);
+
+    vi.advanceTimersByTime(1001);
+    expect(cache.get(key("key"))).toBeNull();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it("should evict expired suggestions when adding new ones", () => {
+    const cache = new SuggestionCache({ ttl: 1000 });
+    cache.set(key("old"), ["suggestion"]);
+
+    vi.advanceTimersByTime(1001);
+    cache.set(key("new"), ["suggestion"]);
+    expect(cache.stats().size).toBe(1);
+  });
+
+  it("should evict the least recently used suggestions beyond the max size", () => {
+    const cache = new SuggestionCache({ maxSize: 2 });
+    cache.set(key("a"), ["a"]);
+    cache.set(key("b"), ["b"]);
+    cache.get(key("a"));
+    cache.set(key("c"), ["c"]);
+
+    expect(cache.get(key("a"))).toEqual(["a"]);
+    expect(cache.get(key("b"))).toBeNull();
+    expect(cache.get(key("c"))).toEqual(["c"]);
+  });
+
+  it("should clear all suggestions", () => {
+    const cache = new SuggestionCache();
+    cache.set(key("a"), ["a"]);
+    cache.set(key("b", "other"), ["b"]);
+
+    cache.clear();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  it("should invalidate the suggestions of a context", () => {
+    const cache = new SuggestionCache();
+    cache.set(key("a", "kernel-1"), ["a"]);
+    cache.set(key("b", "kernel-2"), ["b"]);
+
+    cache.invalidate("kernel-1");
+    expect(cache.get(key("a", "kernel-1"))).toBeNull();
+    expect(cache.get(key("b", "kernel-2"))).toEqual(["b"]);
+  });
+
+  it("should default to a 10 second TTL", () => {
+    const cache = new SuggestionCache();
+    cache.set(key("key"), ["suggestion"]);
+
+    vi.advanceTimersByTime(9000);
+    expect(cache.get(key("key"))).toEqual(["suggestion"]);
+    vi.advanceTimersByTime(1001);
+    expect(cache.get(key("key"))).toBeNull();
+  });
+});
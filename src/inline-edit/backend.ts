@@ -0,0 +1,388 @@
+import type { EditorState } from "@codemirror/state";
+import type { InlineFetchFn } from "./inline-completion.js";
+import type { CompleteFunction, CreateEditOpts } from "./state.js";
+import { stripCodeFenceStream, stripCodeFences } from "./stream.js";
+
+/**
+ * Tokens that mark the parts of a fill-in-the-middle prompt.
+ * The prompt is `prefix + codeBefore + suffix + codeAfter + middle`.
+ */
+export interface FimTokens {
+  prefix: string;
+  suffix: string;
+  middle: string;
+}
+
+/**
+ * Token schemes of common code models.
+ */
+export const FimTokenPresets = {
+  /** Qwen2.5-Coder, and other models using `<|fim_prefix|>` */
+  qwen: { prefix: "<|fim_prefix|>", suffix: "<|fim_suffix|>", middle: "<|fim_middle|>" },
+  /** StarCoder and StarCoder2 */
+  starcoder: { prefix: "<fim_prefix>", suffix: "<fim_suffix>", middle: "<fim_middle>" },
+  /** Code Llama */
+  codellama: { prefix: "<PRE> ", suffix: " <SUF>", middle: " <MID>" },
+  /** DeepSeek Coder */
+  deepseek: { prefix: "<｜fim▁begin｜>", suffix: "<｜fim▁hole｜>", middle: "<｜fim▁end｜>" },
+} satisfies Record<string, FimTokens>;
+
+export interface FimBackendOptions {
+  model: string;
+  /** Base URL of the server, e.g. `http://localhost:8080/v1` for llama.cpp */
+  baseUrl: string;
+  headers?: Record<string, string>;
+  /**
+   * The token scheme, as a preset name or custom tokens.
+   * @default "qwen"
+   */
+  tokens?: keyof typeof FimTokenPresets | FimTokens;
+  /**
+   * Maximum number of characters before the cursor to send.
+   * @default 4000
+   */
+  maxPrefixLength?: number;
+  /**
+   * Maximum number of characters after the cursor to send.
+   * @default 1000
+   */
+  maxSuffixLength?: number;
+  /**
+   * Sent as `max_tokens`.
+   * @default 128
+   */
+  maxTokens?: number;
+  temperature?: number;
+  /** Sequences where the model stops generating */
+  stop?: string | string[];
+}
+
+/**
+ * Builds a fill-in-the-middle prompt around the cursor.
+ */
+export function fimPrompt(
+  state: EditorState,
+  tokens: FimTokens,
+  maxPrefixLength = 4000,
+  maxSuffixLength = 1000,
+): { prompt: string; suffix: string } {
+  const pos = state.selection.main.head;
+  const prefix = state.doc.sliceString(Math.max(0, pos - maxPrefixLength), pos);
+  const suffix = state.doc.sliceString(pos, Math.min(state.doc.length, pos + maxSuffixLength));
+  return {
+    prompt: `${tokens.prefix}${prefix}${tokens.suffix}${suffix}${tokens.middle}`,
+    suffix,
+  };
+}
+
+/** Opening minus closing brackets, negative when the text closes brackets it didn't open */
+function bracketBalance(text: string): number {
+  let balance = 0;
+  for (const char of text) {
+    if ("([{".includes(char)) balance++;
+    else if (")]}".includes(char)) balance--;
+  }
+  return balance;
+}
+
+/**
+ * Removes the end of the completion that repeats the start of the code
+ * after the cursor: whole lines that are already there, or closing
+ * brackets that are already there and that the completion didn't open.
+ * Shorter overlaps are kept, since they are usually part of the code
+ * (e.g. `bar()` before `)`, or `items` before `s[0]`).
+ */
+export function trimSuffixOverlap(completion: string, suffix: string): string {
+  // Whole lines, starting at a line start of the completion
+  for (let start = completion.indexOf("\n") + 1; start > 0; ) {
+    const tail = completion.slice(start);
+    const endsLine =
+      tail.endsWith("\n") || tail.length === suffix.length || suffix[tail.length] === "\n";
+    if (tail.trim() && suffix.startsWith(tail) && endsLine) {
+      return completion.slice(0, start);
+    }
+    start = completion.indexOf("\n", start) + 1;
+  }
+
+  // Unmatched closing brackets
+  const unmatched = -bracketBalance(completion);
+  for (let length = Math.min(unmatched, suffix.length); length > 0; length--) {
+    const overlap = suffix.slice(0, length);
+    if (/^[)\]}]+$/.test(overlap) && completion.endsWith(overlap)) {
+      return completion.slice(0, -length);
+    }
+  }
+  return completion;
+}
+
+/** The parts of a `/completions` response we read, none of them guaranteed */
+type CompletionResponse = {
+  choices?: { text?: unknown }[];
+};
+
+const fim = (opts: FimBackendOptions): InlineFetchFn => {
+  const {
+    model,
+    baseUrl,
+    headers,
+    tokens = "qwen",
+    maxPrefixLength,
+    maxSuffixLength,
+    maxTokens = 128,
+    temperature,
+    stop,
+  } = opts;
+  const fimTokens = typeof tokens === "string" ? FimTokenPresets[tokens] : tokens;
+
+  return async (state: EditorState, signal: AbortSignal): Promise<string> => {
+    const { prompt, suffix } = fimPrompt(state, fimTokens, maxPrefixLength, maxSuffixLength);
+    const response = await fetch(`${baseUrl}/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify({
+        model,
+        prompt,
+        max_tokens: maxTokens,
+        temperature,
+        stop,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data: unknown = await response.json();
+    const text = (data as CompletionResponse | null)?.choices?.[0]?.text;
+    if (typeof text !== "string") {
+      throw new Error("Invalid response from server");
+    }
+    return trimSuffixOverlap(text, suffix);
+  };
+};
+
+const DEFAULT_EDIT_SYSTEM_PROMPT =
+  "You are a code editing assistant. Rewrite the selected code following the instruction. " +
+  "Reply with the replacement for the selected code only, without explanations or markdown code fences.";
+
+/**
+ * Builds the first user message of an edit, from the instruction,
+ * the selected code and the code around it.
+ */
+export function editMessage(
+  opts: Pick<CreateEditOpts, "prompt" | "selection" | "codeBefore" | "codeAfter">,
+): string {
+  return `<code_before>
+${opts.codeBefore}
+</code_before>
+<selection>
+${opts.selection}
+</selection>
+<code_after>
+${opts.codeAfter}
+</code_after>
+
+Instruction: ${opts.prompt}`;
+}
+
+export interface AnthropicEditOptions {
+  model: string;
+  /** Sent as the `x-api-key` header */
+  apiKey?: string;
+  /**
+   * Base URL of the API, or of a proxy in front of it.
+   * @default "https://api.anthropic.com"
+   */
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  /**
+   * Sent as `max_tokens`.
+   * @default 4096
+   */
+  maxTokens?: number;
+  temperature?: number;
+  /** The system prompt. Defaults to asking for the replacement code only. */
+  system?: string;
+  /**
+   * Builds the first user message of an edit.
+   * @default editMessage
+   */
+  message?: (opts: CreateEditOpts) => string;
+  /**
+   * Stream the answer into the document as it arrives.
+   * @default false
+   */
+  stream?: boolean;
+}
+
+type Message = { role: "user" | "assistant"; content: string };
+
+/** The parts of a Messages API response we read, none of them guaranteed */
+type MessageResponse = {
+  content?: { type?: unknown; text?: unknown }[];
+};
+
+/** The parts of a Messages API stream event we read, none of them guaranteed */
+type MessageStreamEvent = {
+  type?: unknown;
+  error?: { message?: unknown };
+  delta?: { type?: unknown; text?: unknown };
+};
+
+/**
+ * The conversation so far: follow-up prompts are sent after
+ * the earlier prompts and the code they produced. The last
+ * answer is replaced by the current proposal, which may have
+ * been edited by hand since.
+ */
+function editMessages(opts: CreateEditOpts, message: (opts: CreateEditOpts) => string): Message[] {
+  const history = opts.history ?? [];
+  const messages: Message[] = [];
+  history.forEach((turn, index) => {
+    messages.push({
+      role: "user",
+      content: index === 0 ? message({ ...opts, prompt: turn.prompt }) : turn.prompt,
+    });
+    const last = index === history.length - 1;
+    messages.push({
+      role: "assistant",
+      content: last ? (opts.proposal ?? turn.response) : turn.response,
+    });
+  });
+  messages.push({ role: "user", content: history.length > 0 ? opts.prompt : message(opts) });
+  return messages;
+}
+
+/**
+ * Reads the text deltas of a Messages API server-sent event stream.
+ */
+async function* readMessageStream(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let end = buffer.indexOf("\n\n");
+      while (end !== -1) {
+        const event = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf("\n\n");
+
+        for (const line of event.split("\n")) {
+          if (!line.startsWith("data:")) continue;
+          const data = JSON.parse(line.slice(5)) as MessageStreamEvent | null;
+          if (data?.type === "error") {
+            throw new Error(`Stream error: ${data.error?.message ?? "unknown"}`);
+          }
+          const text = data?.delta?.text;
+          if (
+            data?.type === "content_block_delta" &&
+            data.delta?.type === "text_delta" &&
+            typeof text === "string"
+          ) {
+            yield text;
+          }
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {
+      // ignore
+    });
+  }
+}
+
+const anthropic = (opts: AnthropicEditOptions): CompleteFunction => {
+  const {
+    model,
+    apiKey,
+    baseUrl = "https://api.anthropic.com",
+    headers,
+    maxTokens = 4096,
+    temperature,
+    system = DEFAULT_EDIT_SYSTEM_PROMPT,
+    message = editMessage,
+    stream = false,
+  } = opts;
+
+  const request = async (editOpts: CreateEditOpts): Promise<Response> => {
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "anthropic-version": "2023-06-01",
+        ...(apiKey
+          ? { "x-api-key": apiKey, "anthropic-dangerous-direct-browser-access": "true" }
+          : {}),
+        ...headers,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        system,
+        messages: editMessages(editOpts, message),
+        stream,
+      }),
+      signal: editOpts.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response;
+  };
+
+  if (stream) {
+    return async function* (editOpts) {
+      const response = await request(editOpts);
+      if (!response.body) {
+        throw new Error("Invalid response from server");
+      }
+      yield* stripCodeFenceStream(readMessageStream(response.body, editOpts.signal));
+    };
+  }
+
+  return async (editOpts) => {
+    const response = await request(editOpts);
+    const data: unknown = await response.json();
+    const content = (data as MessageResponse | null)?.content;
+    if (!Array.isArray(content)) {
+      throw new Error("Invalid response from server");
+    }
+    const text = content
+      .map((block) => (block?.type === "text" && typeof block.text === "string" ? block.text : ""))
+      .join("");
+    return stripCodeFences(text);
+  };
+};
+
+/**
+ * Ready-made `prompt` functions for `aiExtension`.
+ */
+export const AiEditBackend = {
+  /**
+   * A backend for the Anthropic Messages API (`${baseUrl}/v1/messages`),
+   * or compatible servers. The answer is stripped of markdown code
+   * fences, and can be streamed into the document.
+   */
+  anthropic: anthropic,
+};
+
+export const InlineCompletionBackend = {
+  /**
+   * A fill-in-the-middle backend for OpenAI-compatible `/completions`
+   * endpoints, such as a local llama.cpp or Ollama server.
+   */
+  fim: fim,
+};
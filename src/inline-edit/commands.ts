@@ -1,17 +1,48 @@
-import { EditorSelection } from "@codemirror/state";
+import { EditorSelection, type EditorState } from "@codemirror/state";
 import type { Command, EditorView } from "@codemirror/view";
+import { getHunks } from "./hunks.js";
 import {
-  completionState,
-  setInputFocus,
-  setInputValue,
-  setLoading,
-  showCompletion,
-  showInput,
+  type AiEditCompletion,
+  type AiEditSession,
+  type AiEditTurn,
+  addSession,
+  createSession,
+  getSession,
+  getSessionAt,
+  hasCompletion,
+  optionsFacet,
+  removeSession,
+  sessionsState,
+  updateSession,
 } from "./state.js";
+import { isTextStream, readTextStream, type TextStream } from "./stream.js";
 
 // Validation constants
 const MIN_SELECTION_LENGTH = 1;
 
+/**
+ * Find the session a command should act on: the one under the
+ * cursor, or else the most recent one matching the predicate.
+ */
+function targetSession(
+  state: EditorState,
+  predicate: (session: AiEditSession) => boolean,
+): AiEditSession | undefined {
+  const atCursor = getSessionAt(state, state.selection.main.head);
+  if (atCursor && predicate(atCursor)) {
+    return atCursor;
+  }
+  const sessions = state.field(sessionsState, false) ?? [];
+  for (let i = sessions.length - 1; i >= 0; i--) {
+    const session = sessions[i];
+    if (session && predicate(session)) return session;
+  }
+  return undefined;
+}
+
+const isPending = (session: AiEditSession): session is AiEditCompletion =>
+  hasCompletion(session) && !session.loading;
+
 /**
  * Command to show the input prompt
  */
@@ -34,75 +65,456 @@ export const showAiEditInput: Command = (view: EditorView) => {
     return false;
   }
 
-  // Ensure line numbers are within document bounds
-  const safeLineFrom = Math.max(1, Math.min(fromLine.number, doc.lines));
-  const safeLineTo = Math.max(1, Math.min(toLine.number, doc.lines));
+  // Sessions can't overlap; refocus the existing input instead
+  const overlapping = state
+    .field(sessionsState)
+    .find((session) => session.from <= toLine.to && fromLine.from <= session.to);
+  if (overlapping) {
+    if (!overlapping.showInput) return false;
+    view.dispatch({ effects: updateSession.of({ id: overlapping.id, shouldFocus: true }) });
+    return true;
+  }
 
   view.dispatch({
-    effects: [
-      showInput.of({
-        show: true,
-        lineFrom: safeLineFrom,
-        lineTo: safeLineTo,
-      }),
-      setInputFocus.of(true),
-      setInputValue.of(""),
-    ],
+    effects: addSession.of(createSession(fromLine.from, toLine.to)),
     selection: EditorSelection.cursor(fromLine.from),
   });
   return true;
 };
 
-/** Command to close the input prompt */
+/**
+ * Cancel a session's input. A pending request is aborted; any
+ * output that already arrived is kept as a pending completion.
+ */
+export function cancelAiEditSession(view: EditorView, sessionId: number): boolean {
+  const session = getSession(view.state, sessionId);
+  if (!session) return false;
+
+  session.abortController?.abort();
+  if (hasCompletion(session)) {
+    view.dispatch({
+      effects: updateSession.of({
+        id: session.id,
+        showInput: false,
+        loading: false,
+        abortController: null,
+      }),
+    });
+  } else {
+    view.dispatch({ effects: removeSession.of(session.id) });
+  }
+  return true;
+}
+
+/** Command to close the input prompt under the cursor (or the most recent one) */
 export const closeAiEditInput: Command = (view: EditorView) => {
+  const session = targetSession(view.state, (s) => s.showInput);
+  if (!session) return false;
+  return cancelAiEditSession(view, session.id);
+};
+
+/** Accept a session's completion, including all of its hunks */
+export function acceptAiEditSession(view: EditorView, sessionId: number): boolean {
+  const session = getSession(view.state, sessionId);
+  if (!session || !isPending(session)) return false;
+  view.dispatch({ effects: removeSession.of(session.id) });
+  return true;
+}
+
+/** Reject a session's completion, restoring the old code of all of its hunks */
+export function rejectAiEditSession(view: EditorView, sessionId: number): boolean {
+  const session = getSession(view.state, sessionId);
+  if (!session || !isPending(session)) return false;
   view.dispatch({
-    effects: [
-      showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
-      setInputFocus.of(false),
-      setInputValue.of(""),
-      setLoading.of(false),
-    ],
+    changes: { from: session.from, to: session.to, insert: session.oldCode },
+    effects: removeSession.of(session.id),
   });
   return true;
-};
+}
 
-/** Command to accept the completion */
+/** Command to accept the completion under the cursor (or the most recent one) */
 export const acceptAiEdit: Command = (view: EditorView) => {
-  const completionStateValue = view.state.field(completionState);
-  if (completionStateValue) {
-    view.dispatch({
-      effects: [
-        showCompletion.of(null),
-        showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
-        setInputFocus.of(false),
-        setInputValue.of(""),
-        setLoading.of(false),
-      ],
-    });
+  const session = targetSession(view.state, isPending);
+  if (!session) return false;
+  return acceptAiEditSession(view, session.id);
+};
+
+/** Command to reject the completion under the cursor (or the most recent one) */
+export const rejectAiEdit: Command = (view: EditorView) => {
+  const session = targetSession(view.state, isPending);
+  if (!session) return false;
+  return rejectAiEditSession(view, session.id);
+};
+
+/**
+ * Accept a single hunk of a completion. The remaining hunks stay pending;
+ * once none are left the session is closed. Without a session id, the
+ * completion under the cursor (or the most recent one) is used.
+ */
+export function acceptAiEditHunk(view: EditorView, hunkIndex: number, sessionId?: number): boolean {
+  const session =
+    sessionId === undefined
+      ? targetSession(view.state, isPending)
+      : getSession(view.state, sessionId);
+  if (!session || !hasCompletion(session) || session.loading) return false;
+  const hunk = getHunks(session)[hunkIndex];
+  if (!hunk) return false;
+
+  // Fold the hunk into the old code so it no longer shows up as a change
+  const { oldCode } = session;
+  const nextOldCode = oldCode.slice(0, hunk.oldFrom) + hunk.newCode + oldCode.slice(hunk.oldTo);
+  if (nextOldCode === session.newCode) {
+    return acceptAiEditSession(view, session.id);
+  }
+
+  view.dispatch({
+    effects: updateSession.of({ id: session.id, oldCode: nextOldCode }),
+  });
+  return true;
+}
+
+/**
+ * Reject a single hunk of a completion, restoring its old code. The remaining
+ * hunks stay pending; once none are left the session is closed. Without a
+ * session id, the completion under the cursor (or the most recent one) is used.
+ */
+export function rejectAiEditHunk(view: EditorView, hunkIndex: number, sessionId?: number): boolean {
+  const session =
+    sessionId === undefined
+      ? targetSession(view.state, isPending)
+      : getSession(view.state, sessionId);
+  if (!session || !hasCompletion(session) || session.loading) return false;
+  const hunk = getHunks(session)[hunkIndex];
+  if (!hunk) return false;
+
+  const { from, to, newCode } = session;
+  const newFrom = hunk.from - from;
+  const newTo = hunk.to - from;
+  const nextNewCode = newCode.slice(0, newFrom) + hunk.oldCode + newCode.slice(newTo);
+  const changes = { from: hunk.from, to: hunk.to, insert: hunk.oldCode };
+
+  if (nextNewCode === session.oldCode) {
+    view.dispatch({ changes, effects: removeSession.of(session.id) });
     return true;
   }
-  return false;
+
+  view.dispatch({
+    changes,
+    effects: updateSession.of({
+      id: session.id,
+      from,
+      to: to + hunk.oldCode.length - hunk.newCode.length,
+      newCode: nextNewCode,
+    }),
+  });
+  return true;
+}
+
+/**
+ * Send a follow-up prompt for a session's pending result, e.g.
+ * "also add type hints". The prompt input reopens while the new
+ * result is generated; cancelling it keeps the current proposal.
+ */
+export async function refineAiEditSession(
+  view: EditorView,
+  sessionId: number,
+  prompt: string,
+): Promise<void> {
+  const session = getSession(view.state, sessionId);
+  if (!session || !isPending(session) || !prompt.trim()) return;
+  view.dispatch({
+    effects: updateSession.of({ id: sessionId, showInput: true, inputValue: prompt }),
+  });
+  await submitAiEditSession(view, sessionId);
+}
+
+/**
+ * Run the prompt of a session's input and write the result over
+ * the session's range. Other sessions stay usable meanwhile.
+ *
+ * If the session already has a result, the prompt is a follow-up:
+ * the original code, the current proposal and the earlier turns are
+ * passed along, and the new result replaces the proposal.
+ */
+export async function submitAiEditSession(view: EditorView, sessionId: number): Promise<void> {
+  const session = getSession(view.state, sessionId);
+  if (!session || !session.showInput || session.loading) return;
+  const prompt = session.inputValue.trim();
+  if (!prompt) return;
+
+  if (hasCompletion(session)) {
+    await generate(view, sessionId, {
+      prompt,
+      oldCode: session.oldCode,
+      proposal: session.newCode,
+      history: session.turns,
+      alternatives: [],
+    });
+  } else {
+    await generate(view, sessionId, {
+      prompt,
+      oldCode: view.state.sliceDoc(session.from, session.to),
+      history: [],
+      alternatives: [],
+    });
+  }
+}
+
+/**
+ * Re-run the last prompt of a session against its original code,
+ * replacing the pending result. Earlier results are kept as
+ * alternatives to cycle through with `cycleAiEditAlternative`.
+ */
+export async function regenerateAiEditSession(view: EditorView, sessionId: number): Promise<void> {
+  const session = getSession(view.state, sessionId);
+  if (!session || !isPending(session)) return;
+  const last = session.turns[session.turns.length - 1];
+  if (!last) return;
+
+  // Keep any edits made to the current result
+  const alternatives = [...session.alternatives];
+  alternatives[session.alternativeIndex] = session.newCode;
+
+  const history = session.turns.slice(0, -1);
+  view.dispatch({
+    effects: updateSession.of({ id: sessionId, showInput: true, inputValue: last.prompt }),
+  });
+  await generate(view, sessionId, {
+    prompt: last.prompt,
+    oldCode: session.oldCode,
+    proposal: history[history.length - 1]?.response,
+    history,
+    alternatives,
+  });
+}
+
+/** Command to regenerate the completion under the cursor (or the most recent one) */
+export const regenerateAiEdit: Command = (view: EditorView) => {
+  const session = targetSession(view.state, (s) => isPending(s) && s.turns.length > 0);
+  if (!session) return false;
+  void regenerateAiEditSession(view, session.id);
+  return true;
 };
 
-/** Command to reject the completion */
-export const rejectAiEdit: Command = (view: EditorView) => {
-  const completionStateValue = view.state.field(completionState);
-  if (completionStateValue) {
+/**
+ * Switch a session's pending result to the next (`1`) or previous (`-1`)
+ * of its alternatives, wrapping around. Edits made to the current result
+ * are kept for when it is switched back to.
+ */
+export function cycleAiEditAlternative(
+  view: EditorView,
+  sessionId: number,
+  direction: 1 | -1,
+): boolean {
+  const session = getSession(view.state, sessionId);
+  if (!session || !hasCompletion(session) || session.loading) return false;
+
+  const alternatives = [...session.alternatives];
+  alternatives[session.alternativeIndex] = session.newCode;
+  if (alternatives.length < 2) return false;
+
+  const index = (session.alternativeIndex + direction + alternatives.length) % alternatives.length;
+  const newCode = alternatives[index] ?? "";
+  const last = session.turns[session.turns.length - 1];
+  view.dispatch({
+    changes: { from: session.from, to: session.to, insert: newCode },
+    effects: updateSession.of({
+      id: sessionId,
+      from: session.from,
+      to: session.from + newCode.length,
+      newCode,
+      alternatives,
+      alternativeIndex: index,
+      turns: last
+        ? [...session.turns.slice(0, -1), { prompt: last.prompt, response: newCode }]
+        : session.turns,
+    }),
+  });
+  return true;
+}
+
+/** What to ask the `prompt` function for */
+interface GenerateRequest {
+  prompt: string;
+  /** The original code */
+  oldCode: string;
+  /** The proposal the prompt follows up on, if any */
+  proposal?: string;
+  /** Turns before this prompt */
+  history: readonly AiEditTurn[];
+  /** Earlier results of this prompt; the new one is added after them */
+  alternatives: readonly string[];
+}
+
+/**
+ * Calls the `prompt` function and writes its result over the session's
+ * range, keeping the input open (and cancellable) while it loads.
+ */
+async function generate(view: EditorView, sessionId: number, request: GenerateRequest) {
+  const session = getSession(view.state, sessionId);
+  if (!session) return;
+
+  const options = view.state.facet(optionsFacet);
+  const { prompt, oldCode, proposal, history, alternatives } = request;
+
+  const abortController = new AbortController();
+  const { signal } = abortController;
+  view.dispatch({
+    effects: updateSession.of({
+      id: sessionId,
+      loading: true,
+      abortController,
+      oldCode,
+    }),
+  });
+
+  // The new result goes after the earlier ones once output arrives, so
+  // cancelling before that keeps the current result and its position
+  const addResult = (newCode: string) => ({
+    alternatives: [...alternatives, newCode],
+    alternativeIndex: alternatives.length,
+  });
+
+  // Record the finished result as the latest turn and alternative
+  const finish = (newCode: string) => ({
+    turns: [...history, { prompt, response: newCode }],
+    ...addResult(newCode),
+    inputValue: "",
+    showInput: false,
+    loading: false,
+    abortController: null,
+  });
+
+  try {
+    const result = await options.prompt({
+      prompt,
+      selection: oldCode,
+      codeBefore: view.state.sliceDoc(0, session.from),
+      codeAfter: view.state.sliceDoc(session.to),
+      editorView: view,
+      signal,
+      attempt: alternatives.length + 1,
+      ...(proposal !== undefined && { proposal, history: [...history] }),
+    });
+
+    const current = getSession(view.state, sessionId);
+    if (!current?.showInput || signal.aborted) return;
+
+    if (isTextStream(result)) {
+      await streamResult(view, sessionId, result, signal, addResult, finish);
+      return;
+    }
+
+    // Validate result
+    if (!result || typeof result !== "string") {
+      throw new Error("Invalid completion result");
+    }
+
     view.dispatch({
-      changes: {
-        from: completionStateValue.from,
-        to: completionStateValue.to,
-        insert: completionStateValue.oldCode,
-      },
-      effects: [
-        showCompletion.of(null),
-        showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
-        setInputFocus.of(false),
-        setInputValue.of(""),
-        setLoading.of(false),
-      ],
+      changes: { from: current.from, to: current.to, insert: result },
+      effects: updateSession.of({
+        id: sessionId,
+        from: current.from,
+        to: current.from + result.length,
+        newCode: result,
+        ...finish(result),
+      }),
     });
-    return true;
+    restoreFocus(view);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return;
+    }
+    options.onError?.(error as Error);
+    // Go back to the input so the prompt can be retried
+    if (getSession(view.state, sessionId)?.loading) {
+      view.dispatch({
+        effects: updateSession.of({
+          id: sessionId,
+          loading: false,
+          abortController: null,
+          shouldFocus: true,
+        }),
+      });
+    }
   }
-  return false;
-};
+}
+
+/**
+ * Writes a streamed result into the document chunk by chunk.
+ * The session's range grows with each chunk while the input stays
+ * open (so it can be cancelled). Cancelling keeps the partial output
+ * as a pending completion that can be accepted or rejected.
+ */
+async function streamResult(
+  view: EditorView,
+  sessionId: number,
+  stream: TextStream,
+  signal: AbortSignal,
+  addResult: (newCode: string) => Partial<AiEditSession>,
+  finish: (newCode: string) => Partial<AiEditSession>,
+) {
+  let received = false;
+
+  try {
+    for await (const chunk of readTextStream(stream, signal)) {
+      const session = getSession(view.state, sessionId);
+      if (!session?.showInput) return;
+
+      // The first chunk replaces the selection, the rest are appended.
+      // Build on the session's code, which includes any edits made meanwhile.
+      const first = !received;
+      const newCode = first ? chunk : (session.newCode ?? "") + chunk;
+      received = true;
+
+      view.dispatch({
+        changes: first
+          ? { from: session.from, to: session.to, insert: chunk }
+          : { from: session.to, insert: chunk },
+        effects: updateSession.of({
+          id: sessionId,
+          from: session.from,
+          to: (first ? session.from : session.to) + chunk.length,
+          newCode,
+          ...(first && addResult(newCode)),
+        }),
+      });
+    }
+  } catch (error) {
+    // Keep the partial output reviewable if the stream fails midway
+    if (received && getSession(view.state, sessionId)?.showInput) {
+      view.dispatch({
+        effects: updateSession.of({
+          id: sessionId,
+          showInput: false,
+          loading: false,
+          abortController: null,
+        }),
+      });
+    }
+    throw error;
+  }
+
+  const session = getSession(view.state, sessionId);
+  if (signal.aborted || !session?.showInput) return;
+
+  if (!received) {
+    throw new Error("Invalid completion result");
+  }
+
+  view.dispatch({
+    effects: updateSession.of({ id: sessionId, ...finish(session.newCode ?? "") }),
+  });
+  restoreFocus(view);
+}
+
+/**
+ * Once a session's input is gone, hand focus back to the editor,
+ * unless the user has moved on to something else (e.g. another input).
+ */
+function restoreFocus(view: EditorView) {
+  const active = view.root.activeElement;
+  if (!active || active === document.body) {
+    view.focus();
+  }
+}
@@ -0,0 +1,121 @@
+import { diffLines, diffWords } from "diff";
+import type { CompletionState } from "./state.js";
+
+/**
+ * A contiguous group of changed lines within a completion.
+ * Each hunk can be accepted or rejected on its own.
+ */
+export interface AiEditHunk {
+  /** Document position where the hunk's new code starts */
+  from: number;
+  /** Document position where the hunk's new code ends */
+  to: number;
+  /** Offset of the hunk in the completion's `oldCode` */
+  oldFrom: number;
+  /** End offset of the hunk in the completion's `oldCode` */
+  oldTo: number;
+  /** The code this hunk replaces */
+  oldCode: string;
+  /** The code this hunk introduces */
+  newCode: string;
+}
+
+/**
+ * Splits the difference between `oldCode` and `newCode` into hunks
+ * of consecutive removed/added lines. `from` is the document position
+ * at which `newCode` starts.
+ */
+export function computeHunks(oldCode: string, newCode: string, from: number): AiEditHunk[] {
+  const hunks: AiEditHunk[] = [];
+  let oldPos = 0;
+  let newPos = 0;
+  let current: AiEditHunk | null = null;
+
+  for (const change of diffLines(oldCode, newCode)) {
+    if (!change.added && !change.removed) {
+      current = null;
+      oldPos += change.value.length;
+      newPos += change.value.length;
+      continue;
+    }
+
+    if (!current) {
+      current = {
+        from: from + newPos,
+        to: from + newPos,
+        oldFrom: oldPos,
+        oldTo: oldPos,
+        oldCode: "",
+        newCode: "",
+      };
+      hunks.push(current);
+    }
+
+    if (change.removed) {
+      current.oldCode += change.value;
+      current.oldTo += change.value.length;
+      oldPos += change.value.length;
+    } else {
+      current.newCode += change.value;
+      current.to += change.value.length;
+      newPos += change.value.length;
+    }
+  }
+
+  return hunks;
+}
+
+const hunksCache = new WeakMap<CompletionState, AiEditHunk[]>();
+
+/**
+ * Returns the hunks of a completion, memoized per completion state.
+ */
+export function getHunks(completion: CompletionState): AiEditHunk[] {
+  let hunks = hunksCache.get(completion);
+  if (!hunks) {
+    hunks = computeHunks(completion.oldCode, completion.newCode, completion.from);
+    hunksCache.set(completion, hunks);
+  }
+  return hunks;
+}
+
+/**
+ * A range of characters within a hunk's old or new code.
+ */
+export interface WordRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Finds the changed words within a hunk, as offsets into the hunk's
+ * `oldCode` (removed) and `newCode` (added). Pure insertions and
+ * deletions have no intra-line changes to highlight.
+ */
+export function computeWordChanges(hunk: Pick<AiEditHunk, "oldCode" | "newCode">): {
+  removed: WordRange[];
+  added: WordRange[];
+} {
+  const removed: WordRange[] = [];
+  const added: WordRange[] = [];
+  if (!hunk.oldCode || !hunk.newCode) {
+    return { removed, added };
+  }
+
+  let oldPos = 0;
+  let newPos = 0;
+  for (const change of diffWords(hunk.oldCode, hunk.newCode)) {
+    const length = change.value.length;
+    if (change.removed) {
+      removed.push({ from: oldPos, to: oldPos + length });
+      oldPos += length;
+    } else if (change.added) {
+      added.push({ from: newPos, to: newPos + length });
+      newPos += length;
+    } else {
+      oldPos += length;
+      newPos += length;
+    }
+  }
+  return { removed, added };
+}
@@ -6,6 +6,7 @@ import {
   StateEffect,
   StateField,
   type Text,
+  type Transaction,
   type TransactionSpec,
 } from "@codemirror/state";
 import {
@@ -18,7 +19,15 @@ import {
   type ViewUpdate,
   WidgetType,
 } from "@codemirror/view";
+import type { CompletionProvider } from "../completion-provider.js";
 import { debouncePromise } from "../utils.js";
+import { isTextStream, readTextStream, type TextStream } from "./stream.js";
+import {
+  type InlineCompletionCache,
+  SuggestionCache,
+  type SuggestionCacheKey,
+  suggestionCacheKey,
+} from "./suggestion-cache.js";
 
 // Credit to https://github.com/saminzadeh/codemirror-extension-inline-suggestion
 // This is modified for some additional features:
@@ -28,53 +37,277 @@ import { debouncePromise } from "../utils.js";
 // - Callbacks
 
 /**
- * State field tracking the current inline suggestion
+ * The candidates for the inline suggestion at a cursor, and which one is shown
+ */
+interface InlineSuggestion {
+  /** The cursor position the suggestion is shown at */
+  pos: number;
+  /** The candidates, as returned by `fetchFn` */
+  suggestions: readonly string[];
+  /** Index of the shown candidate in `suggestions` */
+  index: number;
+  /** Length of the start of the shown candidate that was already typed or accepted */
+  consumed: number;
+  /** The document the candidates were fetched for, and the cursor position in it */
+  doc: Text;
+  origin: number;
+}
+
+/**
+ * State field tracking the current inline suggestions, one per cursor,
+ * ordered by position
  */
-const InlineSuggestionState = StateField.define<{ suggestion: null | string }>({
+const InlineSuggestionState = StateField.define<readonly InlineSuggestion[]>({
   create() {
-    return { suggestion: null };
+    return [];
   },
   update(value, tr) {
-    const inlineSuggestion = tr.effects.find((e) => e.is(InlineSuggestionEffect));
-    if (!tr.docChanged && !inlineSuggestion && !tr.selection) return value;
+    const updates = tr.effects.filter((e) => e.is(InlineSuggestionEffect));
+    const cycle = tr.effects.find((e) => e.is(CycleSuggestionEffect));
+    const consumed = tr.effects.find((e) => e.is(ConsumeSuggestionEffect));
+    if (!tr.docChanged && updates.length === 0 && !cycle && !tr.selection) return value;
 
-    if (inlineSuggestion && tr.state.doc === inlineSuggestion.value.doc) {
-      return { suggestion: inlineSuggestion.value.text };
+    if (consumed && updates.length === 0) {
+      return consumeSuggestions(value, consumed.value, tr);
+    }
+
+    // Typing the start of a suggestion keeps the rest of it
+    if (tr.docChanged && updates.length === 0 && value.length > 0) {
+      return consumeSuggestions(value, typedText(value, tr), tr, true).filter((suggestion) =>
+        tr.state.selection.ranges.some((range) => range.empty && range.head === suggestion.pos),
+      );
+    }
+
+    if (updates.length > 0) {
+      let suggestions = value;
+      for (const { value: update } of updates) {
+        suggestions =
+          tr.state.doc === update.doc
+            ? setSuggestion(suggestions, update, tr.state)
+            : growConsumedSuggestion(suggestions, update);
+      }
+      return suggestions;
     }
-    return { suggestion: null };
+
+    if (cycle && !tr.docChanged && !tr.selection) {
+      const head = tr.state.selection.main.head;
+      return value.map((suggestion) => {
+        const candidates = matchingCandidates(suggestion);
+        const count = candidates.length;
+        if (suggestion.pos !== head || count < 2) return suggestion;
+        const position = candidates.indexOf(suggestion.index);
+        const index = candidates[(position + cycle.value + count) % count] ?? suggestion.index;
+        return { ...suggestion, index };
+      });
+    }
+    return [];
   },
 });
 
 /**
- * Effect to update the inline suggestion
+ * Effect to update the inline suggestion, with one or several candidates.
+ * With a `pos`, only the suggestion at that cursor is updated; otherwise
+ * the suggestion at the main cursor replaces all others.
  */
-const InlineSuggestionEffect = StateEffect.define<{
-  text: string | null;
+const InlineSuggestionEffect = StateEffect.define<SuggestionUpdate>();
+
+interface SuggestionUpdate {
+  text: string | readonly string[] | null;
   doc: Text;
-}>();
+  pos?: number;
+}
 
 /**
- * Creates a decoration for the inline suggestion at the cursor position
+ * Effect to show the next (`1`) or previous (`-1`) candidate at the main cursor
  */
-function inlineSuggestionDecoration(view: EditorView, prefix: string) {
-  const pos = view.state.selection.main.head;
-  const widgets: Range<Decoration>[] = [];
-  const w = Decoration.widget({
-    widget: new InlineSuggestionWidget(prefix),
-    side: 1,
+const CycleSuggestionEffect = StateEffect.define<1 | -1>();
+
+/**
+ * Effect marking that the transaction inserts the start of the suggestions
+ * at the given cursor positions (before the change), so only the rest of
+ * them should remain visible. Other suggestions are kept as they are.
+ */
+const ConsumeSuggestionEffect = StateEffect.define<ReadonlyMap<number, string>>();
+
+/**
+ * Applies an `InlineSuggestionEffect` to the suggestions
+ */
+function setSuggestion(
+  value: readonly InlineSuggestion[],
+  update: SuggestionUpdate,
+  state: EditorState,
+): readonly InlineSuggestion[] {
+  const { text } = update;
+  const pos = update.pos ?? state.selection.main.head;
+  const suggestions = (typeof text === "string" ? [text] : (text ?? [])).filter(Boolean);
+  const others = update.pos === undefined ? [] : value.filter((s) => s.pos !== pos);
+  if (suggestions.length === 0) return others;
+
+  // Keep the chosen candidate while a streamed suggestion grows
+  const previous = value.find((s) => s.pos === pos);
+  const index = previous?.suggestions.length === suggestions.length ? previous.index : 0;
+  const suggestion = { pos, suggestions, index, consumed: 0, doc: update.doc, origin: pos };
+  return [...others, suggestion].sort((a, b) => a.pos - b.pos);
+}
+
+/**
+ * Applies an update for an older document to the suggestion fetched for
+ * it, when that suggestion is being typed through (e.g. a streamed one
+ * that keeps growing). Other outdated updates are ignored.
+ */
+function growConsumedSuggestion(
+  value: readonly InlineSuggestion[],
+  update: SuggestionUpdate,
+): readonly InlineSuggestion[] {
+  const { text } = update;
+  const suggestions = (typeof text === "string" ? [text] : (text ?? [])).filter(Boolean);
+  return value.flatMap((suggestion) => {
+    if (suggestion.doc !== update.doc || suggestion.origin !== update.pos) return [suggestion];
+    const typed = suggestion.suggestions[suggestion.index]?.slice(0, suggestion.consumed) ?? "";
+    const index = suggestions.length === suggestion.suggestions.length ? suggestion.index : 0;
+    const current = suggestions[index];
+    if (!current?.startsWith(typed) || current.length <= typed.length) return [];
+    return [{ ...suggestion, suggestions, index }];
+  });
+}
+
+/**
+ * Marks more of the shown candidate as consumed, or returns null
+ * if it doesn't continue with the text or has nothing left to show.
+ */
+function consumeSuggestion(value: InlineSuggestion, text: string): InlineSuggestion | null {
+  const current = value.suggestions[value.index];
+  const consumed = value.consumed + text.length;
+  if (!current?.startsWith(text, value.consumed) || current.length <= consumed) return null;
+  return { ...value, consumed };
+}
+
+/**
+ * Indices of the candidates that start with the consumed text and have
+ * more to show. The others are hidden, but keep their index.
+ */
+function matchingCandidates(value: InlineSuggestion): number[] {
+  const typed = value.suggestions[value.index]?.slice(0, value.consumed) ?? "";
+  return value.suggestions.flatMap((suggestion, i) =>
+    suggestion.length > value.consumed && suggestion.startsWith(typed) ? [i] : [],
+  );
+}
+
+/**
+ * The shown candidate of a suggestion
+ */
+interface ShownCandidate {
+  /** The rest of the candidate, still to be inserted */
+  text: string;
+  /** The whole candidate, as returned by `fetchFn` */
+  candidate: string;
+  /** Index of the candidate among those returned by `fetchFn` */
+  index: number;
+}
+
+function shownCandidate(value: InlineSuggestion | undefined): ShownCandidate | null {
+  if (!value) return null;
+  const candidate = value.suggestions[value.index];
+  const text = candidate?.slice(value.consumed);
+  return candidate && text ? { text, candidate, index: value.index } : null;
+}
+
+/**
+ * Finds the text typed at each suggestion, keyed by position. Returns
+ * an empty map unless the transaction only inserts text at suggestions.
+ */
+function typedText(value: readonly InlineSuggestion[], tr: Transaction): Map<number, string> {
+  const typed = new Map<number, string>();
+  let other = false;
+  tr.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
+    if (fromA !== toA || !value.some((suggestion) => suggestion.pos === fromA)) {
+      other = true;
+    } else {
+      typed.set(fromA, inserted.toString());
+    }
   });
-  widgets.push(w.range(pos));
+  return other ? new Map() : typed;
+}
+
+/**
+ * Maps the suggestions through a transaction that consumes some of them.
+ * With `dropOthers`, suggestions that aren't consumed are dropped.
+ */
+function consumeSuggestions(
+  value: readonly InlineSuggestion[],
+  consumed: ReadonlyMap<number, string>,
+  tr: Transaction,
+  dropOthers = false,
+): readonly InlineSuggestion[] {
+  const result: InlineSuggestion[] = [];
+  for (const suggestion of value) {
+    const text = consumed.get(suggestion.pos);
+    if (text === undefined && dropOthers) continue;
+    const next = text === undefined ? suggestion : consumeSuggestion(suggestion, text);
+    if (next) {
+      result.push({ ...next, pos: tr.changes.mapPos(suggestion.pos, 1) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the suggestion at the main cursor, if any
+ */
+function mainSuggestion(state: EditorState): InlineSuggestion | undefined {
+  const head = state.selection.main.head;
+  return state.field(InlineSuggestionState).find((suggestion) => suggestion.pos === head);
+}
+
+/**
+ * Returns the shown candidate at the main cursor, if there is a suggestion
+ */
+function currentSuggestion(state: EditorState): ShownCandidate | null {
+  return shownCandidate(mainSuggestion(state));
+}
+
+/**
+ * Creates a decoration for each inline suggestion at its cursor position
+ */
+function inlineSuggestionDecoration(suggestions: readonly InlineSuggestion[]) {
+  const widgets: Range<Decoration>[] = [];
+  for (const suggestion of suggestions) {
+    const shown = shownCandidate(suggestion);
+    if (!shown) continue;
+    const candidates = matchingCandidates(suggestion);
+    const w = Decoration.widget({
+      widget: new InlineSuggestionWidget(
+        shown.text,
+        candidates.indexOf(shown.index),
+        candidates.length,
+      ),
+      side: 1,
+    });
+    widgets.push(w.range(suggestion.pos));
+  }
   return Decoration.set(widgets);
 }
 
 /**
- * Widget that renders the inline suggestion
+ * Widget that renders the inline suggestion, with a "2/3"
+ * indicator when there are several candidates
  */
 class InlineSuggestionWidget extends WidgetType {
   suggestion: string;
-  constructor(suggestion: string) {
+  index: number;
+  count: number;
+  constructor(suggestion: string, index = 0, count = 1) {
     super();
     this.suggestion = suggestion;
+    this.index = index;
+    this.count = count;
+  }
+  eq(other: InlineSuggestionWidget) {
+    return (
+      other.suggestion === this.suggestion &&
+      other.index === this.index &&
+      other.count === this.count
+    );
   }
   toDOM() {
     const div = document.createElement("span");
@@ -83,6 +316,14 @@ class InlineSuggestionWidget extends WidgetType {
     div.textContent = this.suggestion;
     div.setAttribute("role", "suggestion");
     div.setAttribute("aria-label", `Suggestion: ${this.suggestion}`);
+    if (this.count > 1) {
+      const indicator = div.appendChild(document.createElement("span"));
+      indicator.className = "cm-inline-suggestion-count";
+      indicator.textContent = `${this.index + 1}/${this.count}`;
+      indicator.style.marginLeft = "1ch";
+      indicator.style.fontSize = "85%";
+      indicator.setAttribute("aria-label", `Suggestion ${this.index + 1} of ${this.count}`);
+    }
     return div;
   }
   get lineBreaks(): number {
@@ -90,12 +331,18 @@ class InlineSuggestionWidget extends WidgetType {
   }
 }
 
-type InlineFetchFn = (state: EditorState, signal: AbortSignal, view: EditorView) => Promise<string>;
+export type InlineFetchFn = (
+  state: EditorState,
+  signal: AbortSignal,
+  view: EditorView,
+) => Promise<string | string[] | TextStream> | AsyncIterable<string>;
 
 // Add these near the top with other types
 type SuggestionEvents = {
-  onSuggestionAccepted?: (view: EditorView, suggestion: string) => void;
-  onSuggestionRejected?: (view: EditorView, suggestion: string) => void;
+  /** `index` is the position of the accepted candidate among those returned by `fetchFn` */
+  onSuggestionAccepted?: (view: EditorView, suggestion: string, index: number) => void;
+  /** `index` is the position of the shown candidate among those returned by `fetchFn` */
+  onSuggestionRejected?: (view: EditorView, suggestion: string, index: number) => void;
   beforeSuggestionFetch?: (view: EditorView) => boolean;
   shouldShowSuggestion?: (view: EditorView, suggestion: string) => boolean;
 };
@@ -106,7 +353,8 @@ type InlineSuggestionOptions = {
    * @param state - The editor state.
    * @param signal - The abort signal.
    * @param view - The editor view.
-   * @returns The suggestion.
+   * @returns The suggestion, several candidates to cycle through,
+   * or a stream of chunks that grow the ghost text as they arrive.
    */
   fetchFn: InlineFetchFn;
   /**
@@ -119,55 +367,108 @@ type InlineSuggestionOptions = {
   includeKeymap?: boolean;
   events?: SuggestionEvents;
   /**
+   * Time in ms after which cached suggestions expire.
+   * Ignored when a `cache` is given.
    * @default 10000 // 10 seconds
    */
   cacheTimeout?: number;
+  /**
+   * Cache to use, e.g. one `SuggestionCache` shared by many editors,
+   * to read its hit/miss stats or to clear it when the context changes.
+   * By default, each editor gets its own cache with a `cacheTimeout` TTL.
+   */
+  cache?: InlineCompletionCache;
+  /**
+   * Anything besides the text around the cursor that suggestions
+   * depend on (e.g. the file name), to keep them apart in the cache.
+   */
+  cacheContextKey?: (state: EditorState) => string;
+  /**
+   * Provider shared with other editors. Requests then go through its
+   * queue, and its cache is used unless `cache` is given.
+   */
+  provider?: CompletionProvider;
+  /**
+   * With multiple cursors, suggestions are fetched for each empty cursor
+   * (calling `fetchFn` with that cursor as the main selection), up to
+   * this many cursors including the main one.
+   * @default 10
+   */
+  maxCursors?: number;
 };
 
 /**
- * Cache for inline suggestions
+ * The positions to fetch suggestions for: the main cursor,
+ * then other empty cursors in document order, up to `max`
  */
-class SuggestionCache {
-  private cache: Map<string, { result: string; timestamp: number }> = new Map();
-  private timeout: number;
-
-  constructor(timeout: number) {
-    this.timeout = timeout;
-  }
-
-  get(key: string): string | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    if (Date.now() - entry.timestamp > this.timeout) {
-      this.cache.delete(key);
-      return null;
-    }
-
-    return entry.result;
+function suggestionCursors(state: EditorState, max: number): number[] {
+  const { main, ranges } = state.selection;
+  const positions = [main.head];
+  for (const range of ranges) {
+    if (positions.length >= max) break;
+    if (range !== main && range.empty) positions.push(range.head);
   }
+  return positions;
+}
 
-  set(key: string, value: string) {
-    this.cache.set(key, { result: value, timestamp: Date.now() });
-  }
+/**
+ * Returns the state as seen from the cursor at `pos`, i.e. with
+ * that cursor as the main selection, so `fetchFn` can stay unaware
+ * of multiple cursors.
+ */
+function stateAtCursor(state: EditorState, pos: number): EditorState {
+  const { ranges, main } = state.selection;
+  if (main.head === pos) return state;
+  const index = ranges.findIndex((range) => range.empty && range.head === pos);
+  return state.update({ selection: EditorSelection.create(ranges, index) }).state;
 }
 
+/**
+ * Calls `fetchFn` for each cursor, through the provider's queue if there is one
+ */
+const fetchForCursors = (
+  options: InlineSuggestionOptions,
+  state: EditorState,
+  signal: AbortSignal,
+  view: EditorView,
+  positions: number[],
+) =>
+  positions.map((pos) => {
+    const cursorState = stateAtCursor(state, pos);
+    const { fetchFn, provider } = options;
+    return provider
+      ? provider.request(view, (requestSignal) => fetchFn(cursorState, requestSignal, view), signal)
+      : fetchFn(cursorState, signal, view);
+  });
+
 /**
  * Creates a plugin that fetches suggestions when the document changes
  */
-const fetchSuggestion = (fetchFn: InlineFetchFn, options: InlineSuggestionOptions) =>
+const fetchSuggestion = (
+  fetchAll: (...args: Parameters<typeof fetchForCursors>) => Promise<ReturnType<InlineFetchFn>[]>,
+  options: InlineSuggestionOptions,
+) =>
   ViewPlugin.fromClass(
     class Plugin {
       abortController: AbortController | null = null;
-      cache: SuggestionCache;
+      cache: InlineCompletionCache;
 
       constructor() {
-        this.cache = new SuggestionCache(options.cacheTimeout ?? 1000);
+        this.cache =
+          options.cache ??
+          options.provider?.cache ??
+          new SuggestionCache({ ttl: options.cacheTimeout });
       }
 
       async update(update: ViewUpdate) {
         if (!update.docChanged) return;
 
+        // The rest of the suggestions are still showing (and may still be
+        // streaming), so there's nothing to fetch
+        if (update.state.field(InlineSuggestionState).length > 0) {
+          return;
+        }
+
         // Check if we should fetch
         if (options.events?.beforeSuggestionFetch?.(update.view) === false) {
           return;
@@ -177,37 +478,95 @@ const fetchSuggestion = (fetchFn: InlineFetchFn, options: InlineSuggestionOption
         this.abortController?.abort();
         this.abortController = new AbortController();
 
-        const doc = update.state.doc;
-        const cacheKey = doc.toString();
+        const { view, state } = update;
+        const doc = state.doc;
+        const contextKey = options.cacheContextKey?.(state);
+        const cacheKey = (pos: number) => suggestionCacheKey(state, pos, contextKey);
 
         // Check cache first
-        const cached = this.cache.get(cacheKey);
-        if (cached) {
-          update.view.dispatch({
-            effects: InlineSuggestionEffect.of({ text: cached, doc }),
-          });
+        const positions: number[] = [];
+        const cached = suggestionCursors(state, options.maxCursors ?? 10).flatMap((pos) => {
+          const suggestions = this.cache.get(cacheKey(pos));
+          if (!suggestions) positions.push(pos);
+          return suggestions ? [InlineSuggestionEffect.of({ text: suggestions, doc, pos })] : [];
+        });
+        if (cached.length > 0) {
+          // Views can't be updated from within an update
+          queueMicrotask(() => view.dispatch({ effects: cached }));
+        }
+        if (positions.length === 0) {
           return;
         }
 
+        const signal = this.abortController.signal;
+        let results: ReturnType<InlineFetchFn>[];
         try {
-          const result = await fetchFn(update.state, this.abortController.signal, update.view);
-          // Only update if not aborted
-          if (this.abortController.signal.aborted) {
-            return;
-          }
+          results = await fetchAll(options, state, signal, view, positions);
+        } catch (err) {
+          logFetchError(err);
+          return;
+        }
 
-          if (options.events?.shouldShowSuggestion?.(update.view, result) === false) {
-            return;
-          }
+        await Promise.all(
+          results.map(async (pending, i) => {
+            const pos = positions[i] ?? state.selection.main.head;
+            try {
+              const result = await pending;
+              // Only update if not aborted
+              if (signal.aborted) {
+                return;
+              }
+
+              if (isTextStream(result)) {
+                await this.streamSuggestion(view, result, signal, cacheKey(pos), doc, pos);
+                return;
+              }
+
+              const suggestions = (typeof result === "string" ? [result] : result).filter(
+                (suggestion) =>
+                  suggestion && options.events?.shouldShowSuggestion?.(view, suggestion) !== false,
+              );
+              if (suggestions.length === 0) {
+                return;
+              }
+
+              this.cache.set(cacheKey(pos), suggestions);
+              view.dispatch({
+                effects: InlineSuggestionEffect.of({ text: suggestions, doc, pos }),
+              });
+            } catch (err) {
+              logFetchError(err);
+            }
+          }),
+        );
+      }
 
-          this.cache.set(cacheKey, result);
-          update.view.dispatch({
-            effects: InlineSuggestionEffect.of({ text: result, doc }),
-          });
-        } catch (err) {
-          if (err instanceof Error && err.name !== "AbortError") {
-            console.error("Suggestion fetch error:", err);
+      /**
+       * Grows the suggestion as chunks arrive. Typing through the suggestion
+       * keeps reading; other edits abort the signal, which stops reading, and
+       * `InlineSuggestionState` drops chunks that arrive for an outdated document.
+       */
+      async streamSuggestion(
+        view: EditorView,
+        stream: TextStream,
+        signal: AbortSignal,
+        cacheKey: SuggestionCacheKey,
+        doc: Text,
+        pos: number,
+      ) {
+        let text = "";
+        for await (const chunk of readTextStream(stream, signal)) {
+          text += chunk;
+          if (options.events?.shouldShowSuggestion?.(view, text) === false) {
+            continue;
           }
+          view.dispatch({
+            effects: InlineSuggestionEffect.of({ text, doc, pos }),
+          });
+        }
+
+        if (!signal.aborted && text) {
+          this.cache.set(cacheKey, [text]);
         }
       }
 
@@ -217,8 +576,14 @@ const fetchSuggestion = (fetchFn: InlineFetchFn, options: InlineSuggestionOption
     },
   );
 
+function logFetchError(err: unknown) {
+  if (err instanceof Error && err.name !== "AbortError") {
+    console.error("Suggestion fetch error:", err);
+  }
+}
+
 /**
- * Plugin that renders the inline suggestion
+ * Plugin that renders the inline suggestions
  */
 const renderInlineSuggestionPlugin = ViewPlugin.fromClass(
   class Plugin {
@@ -228,12 +593,12 @@ const renderInlineSuggestionPlugin = ViewPlugin.fromClass(
       this.decorations = Decoration.none;
     }
     update(update: ViewUpdate) {
-      const suggestionText = update.state.field(InlineSuggestionState)?.suggestion;
-      if (!suggestionText) {
+      const suggestions = update.state.field(InlineSuggestionState);
+      if (suggestions.length === 0) {
         this.decorations = Decoration.none;
         return;
       }
-      this.decorations = inlineSuggestionDecoration(update.view, suggestionText);
+      this.decorations = inlineSuggestionDecoration(suggestions);
     }
   },
   {
@@ -242,62 +607,80 @@ const renderInlineSuggestionPlugin = ViewPlugin.fromClass(
 );
 
 /**
- * Inserts completion text at the current selection
+ * Inserts text at the cursors, keyed by cursor position.
+ * Cursors without text are left as they are.
  */
 function insertCompletionText(
   state: EditorState,
-  text: string,
-  from: number,
-  to: number,
+  texts: ReadonlyMap<number, string>,
 ): TransactionSpec {
   return {
     ...state.changeByRange((range) => {
-      if (range === state.selection.main)
-        return {
-          changes: { from: from, to: to, insert: text },
-          range: EditorSelection.cursor(from + text.length),
-        };
-      const len = to - from;
-      if (
-        !range.empty ||
-        (len && state.sliceDoc(range.from - len, range.from) !== state.sliceDoc(from, to))
-      )
-        return { range };
+      const text = texts.get(range.head);
+      if (!text || (!range.empty && range !== state.selection.main)) return { range };
       return {
-        changes: { from: range.from - len, to: range.from, insert: text },
-        range: EditorSelection.cursor(range.from - len + text.length),
+        changes: { from: range.head, insert: text },
+        range: EditorSelection.cursor(range.head + text.length),
       };
     }),
     userEvent: "input.complete",
   };
 }
 
-// Commands
+/**
+ * The shown candidate of each suggestion, keyed by cursor position.
+ * With `mainOnly`, only the suggestion at the main cursor is included.
+ */
+function shownSuggestions(state: EditorState, mainOnly = false) {
+  const shown = new Map<number, ShownCandidate>();
+  const suggestions = mainOnly ? [mainSuggestion(state)] : state.field(InlineSuggestionState);
+  for (const suggestion of suggestions) {
+    const candidate = shownCandidate(suggestion);
+    if (suggestion && candidate) shown.set(suggestion.pos, candidate);
+  }
+  return shown;
+}
 
-const acceptInlineCompletion: Command = (view: EditorView) => {
-  const suggestionText = view.state.field(InlineSuggestionState)?.suggestion;
-  if (!suggestionText) return false;
+/**
+ * Accepts the suggestions at all cursors, or only the one at the main
+ * cursor. Suggestions at other cursors stay visible.
+ */
+function acceptSuggestions(view: EditorView, mainOnly: boolean): boolean {
+  if (!currentSuggestion(view.state)) return false;
+  const shown = shownSuggestions(view.state, mainOnly);
 
   // Get options from state
   const config = view.state.facet(inlineCompletionConfig);
 
+  const texts = new Map([...shown].map(([pos, { text }]) => [pos, text]));
   view.dispatch({
-    ...insertCompletionText(
-      view.state,
-      suggestionText,
-      view.state.selection.main.head,
-      view.state.selection.main.head,
-    ),
+    ...insertCompletionText(view.state, texts),
+    effects: ConsumeSuggestionEffect.of(texts),
   });
 
   // Trigger event
-  config.events?.onSuggestionAccepted?.(view, suggestionText);
+  for (const { candidate, index } of shown.values()) {
+    config.events?.onSuggestionAccepted?.(view, candidate, index);
+  }
   return true;
-};
+}
+
+// Commands
+
+/**
+ * Accepts the suggestions at all cursors
+ */
+const acceptInlineCompletion: Command = (view: EditorView) => acceptSuggestions(view, false);
+
+/**
+ * Accepts only the suggestion at the main cursor,
+ * keeping the suggestions at other cursors visible
+ */
+const acceptInlineCompletionAtCursor: Command = (view: EditorView) => acceptSuggestions(view, true);
 
 const rejectInlineCompletion: Command = (view: EditorView) => {
-  const suggestionText = view.state.field(InlineSuggestionState)?.suggestion;
-  if (!suggestionText) return false;
+  if (!currentSuggestion(view.state)) return false;
+  const shown = shownSuggestions(view.state);
 
   const config = view.state.facet(inlineCompletionConfig);
 
@@ -306,7 +689,75 @@ const rejectInlineCompletion: Command = (view: EditorView) => {
   });
 
   // Trigger event
-  config.events?.onSuggestionRejected?.(view, suggestionText);
+  for (const { candidate, index } of shown.values()) {
+    config.events?.onSuggestionRejected?.(view, candidate, index);
+  }
+  return true;
+};
+
+/**
+ * Accepts the start of the suggestions and keeps the rest visible,
+ * without fetching new ones. Once a whole suggestion has been
+ * accepted this way, `onSuggestionAccepted` is called for it.
+ */
+function acceptInlineCompletionPart(view: EditorView, getPart: (text: string) => string): boolean {
+  if (!currentSuggestion(view.state)) return false;
+
+  const config = view.state.facet(inlineCompletionConfig);
+  const parts = new Map<number, string>();
+  const accepted: ShownCandidate[] = [];
+  for (const [pos, suggestion] of shownSuggestions(view.state)) {
+    const part = getPart(suggestion.text) || suggestion.text;
+    parts.set(pos, part);
+    if (part.length >= suggestion.text.length) accepted.push(suggestion);
+  }
+
+  view.dispatch({
+    ...insertCompletionText(view.state, parts),
+    effects: ConsumeSuggestionEffect.of(parts),
+  });
+
+  // Report the whole candidate, not just its last part
+  for (const { candidate, index } of accepted) {
+    config.events?.onSuggestionAccepted?.(view, candidate, index);
+  }
+  return true;
+}
+
+/**
+ * Accepts the next word of the suggestions. A suggestion that starts on a
+ * new line accepts the line break and indentation first.
+ */
+const acceptInlineCompletionWord: Command = (view: EditorView) =>
+  acceptInlineCompletionPart(
+    view,
+    (text) => text.match(/^(?:\r?\n[ \t]*|[ \t]*(?:\w+|[^\w\s]+)?)/)?.[0] ?? "",
+  );
+
+/**
+ * Accepts the rest of the current line of the suggestions
+ * (or the next line, if a suggestion starts with a line break).
+ */
+const acceptInlineCompletionLine: Command = (view: EditorView) =>
+  acceptInlineCompletionPart(view, (text) => text.match(/^(?:\r?\n)?[^\r\n]*/)?.[0] ?? "");
+
+/**
+ * Shows the next candidate at the main cursor, when `fetchFn` returned several
+ */
+const nextInlineCompletion: Command = (view: EditorView) => {
+  const suggestion = mainSuggestion(view.state);
+  if (!suggestion || matchingCandidates(suggestion).length < 2) return false;
+  view.dispatch({ effects: CycleSuggestionEffect.of(1) });
+  return true;
+};
+
+/**
+ * Shows the previous candidate at the main cursor, when `fetchFn` returned several
+ */
+const previousInlineCompletion: Command = (view: EditorView) => {
+  const suggestion = mainSuggestion(view.state);
+  if (!suggestion || matchingCandidates(suggestion).length < 2) return false;
+  view.dispatch({ effects: CycleSuggestionEffect.of(-1) });
   return true;
 };
 
@@ -315,6 +766,10 @@ const rejectInlineCompletion: Command = (view: EditorView) => {
 const inlineCompletionKeymap = keymap.of([
   { key: "Tab", run: acceptInlineCompletion },
   { key: "Escape", run: rejectInlineCompletion },
+  { key: "Mod-ArrowRight", run: acceptInlineCompletionWord },
+  { key: "Mod-Shift-ArrowRight", run: acceptInlineCompletionLine },
+  { key: "Alt-]", run: nextInlineCompletion },
+  { key: "Alt-[", run: previousInlineCompletion },
 ]);
 
 // Add config facet to store options
@@ -328,15 +783,26 @@ const inlineCompletionConfig = Facet.define<InlineSuggestionOptions, InlineSugge
  */
 function inlineCompletion(options: InlineSuggestionOptions) {
   const { delay = 500, includeKeymap = true } = options;
-  const fetchFn = debouncePromise(options.fetchFn, delay);
+  const fetchAll = debouncePromise(fetchForCursors, delay);
 
   return [
     InlineSuggestionState,
     inlineCompletionConfig.of(options),
-    fetchSuggestion(fetchFn, options),
+    fetchSuggestion(fetchAll, options),
     renderInlineSuggestionPlugin,
+    options.provider?.extension ?? [],
     includeKeymap ? inlineCompletionKeymap : [],
   ];
 }
 
-export { acceptInlineCompletion, rejectInlineCompletion, inlineCompletion, inlineCompletionKeymap };
+export {
+  acceptInlineCompletion,
+  acceptInlineCompletionAtCursor,
+  acceptInlineCompletionWord,
+  acceptInlineCompletionLine,
+  rejectInlineCompletion,
+  nextInlineCompletion,
+  previousInlineCompletion,
+  inlineCompletion,
+  inlineCompletionKeymap,
+};
@@ -1,15 +1,13 @@
 import { type EditorState, type Extension, Prec, type Range, StateField } from "@codemirror/state";
 import { Decoration, type DecorationSet, EditorView, keymap } from "@codemirror/view";
 import { acceptAiEdit, rejectAiEdit, showAiEditInput } from "./commands.js";
+import { computeWordChanges, getHunks } from "./hunks.js";
 import {
   type AiOptions,
-  completionState,
   defaultKeymaps,
-  inputState,
-  inputValueState,
-  loadingState,
+  hasCompletion,
   optionsFacet,
-  showInput,
+  sessionsState,
 } from "./state.js";
 import { aiTheme } from "./theme.js";
 import { triggerPlugin } from "./trigger.js";
@@ -55,10 +53,7 @@ export function aiExtension(options: AiOptions): Extension[] {
 
   return [
     optionsFacet.of(options),
-    inputState,
-    inputValueState,
-    completionState,
-    loadingState,
+    sessionsState,
     triggerPlugin(),
     aiTheme,
     keymap.of([
@@ -73,7 +68,6 @@ export function aiExtension(options: AiOptions): Extension[] {
         { key: keymapConfig.rejectEdit, run: rejectAiEdit },
       ]),
     ]),
-    lineShiftListener,
     // Decoration for the new code (green)
     newCodeDecoration,
     inputPromptDecoration,
@@ -83,65 +77,63 @@ export function aiExtension(options: AiOptions): Extension[] {
   ];
 }
 
+const newCodeLine = Decoration.line({ class: "cm-new-code-line" });
+const newCodeWord = Decoration.mark({ class: "cm-new-code-word" });
+
+/** Adds a line decoration to every line touched by the range */
+function addNewCodeLines(
+  state: EditorState,
+  from: number,
+  to: number,
+  decorations: Array<Range<Decoration>>,
+) {
+  if (to <= from) return;
+  const lastLine = state.doc.lineAt(to - 1).number;
+  for (let line = state.doc.lineAt(from).number; line <= lastLine; line++) {
+    decorations.push(newCodeLine.range(state.doc.line(line).from));
+  }
+}
+
 /**
- * Track line shifts and adjust the position of the input.
+ * Decoration for the new code (green). Only the changed lines
+ * are highlighted, and optionally the changed words within them.
  */
-export const lineShiftListener = EditorView.updateListener.of((update) => {
-  const inputStateValue = update.state.field(inputState);
-  if (!inputStateValue.show || !update.docChanged) return;
-
-  let { lineFrom, lineTo } = inputStateValue;
-  let shifted = false;
-
-  update.changes.iterChanges((fromA, _toA, fromB, toB) => {
-    const changePosLine = update.state.doc.lineAt(fromA).number;
-
-    if (changePosLine < lineFrom) {
-      // Changes before selection - shift both bounds
-      const linesAdded =
-        update.state.doc.lineAt(toB).number - update.state.doc.lineAt(fromB).number;
-      lineFrom += linesAdded;
-      lineTo += linesAdded;
-      shifted = true;
-    } else if (changePosLine <= lineTo) {
-      // Changes inside selection - adjust end bound
-      const linesAdded =
-        update.state.doc.lineAt(toB).number - update.state.doc.lineAt(fromB).number;
-      lineTo += linesAdded;
-      shifted = true;
-    }
-  });
+export const newCodeDecoration = EditorView.decorations.of((view) => {
+  const { state } = view;
+  const { wordDiff } = state.facet(optionsFacet);
+  const decorations: Array<Range<Decoration>> = [];
 
-  if (shifted) {
-    update.view.dispatch({
-      effects: [showInput.of({ show: true, lineFrom, lineTo })],
-    });
-  }
-});
+  for (const session of state.field(sessionsState)) {
+    if (!hasCompletion(session)) continue;
 
-/** Decoration for the new code (green) */
-export const newCodeDecoration = EditorView.decorations.of((view) => {
-  const completionStateValue = view.state.field(completionState);
-  if (completionStateValue) {
-    return Decoration.set([
-      Decoration.mark({
-        class: "cm-new-code-line",
-      }).range(completionStateValue.from, completionStateValue.to),
-    ]);
+    // While streaming, the whole range is still in flux
+    if (session.loading) {
+      addNewCodeLines(state, session.from, session.to, decorations);
+      continue;
+    }
+
+    for (const hunk of getHunks(session)) {
+      addNewCodeLines(state, hunk.from, hunk.to, decorations);
+      if (wordDiff) {
+        for (const word of computeWordChanges(hunk).added) {
+          decorations.push(newCodeWord.range(hunk.from + word.from, hunk.from + word.to));
+        }
+      }
+    }
   }
 
-  return Decoration.none;
+  return Decoration.set(decorations, true);
 });
 
-/** Decoration for the input prompt */
-export const inputPromptDecoration = EditorView.decorations.compute([inputState], (state) => {
-  const inputStateValue = state.field(inputState);
-  const options = state.facet(optionsFacet);
+/** Decoration for the input prompts */
+export const inputPromptDecoration = EditorView.decorations.compute([sessionsState], (state) => {
   const decorations: Array<Range<Decoration>> = [];
 
-  if (inputStateValue.show) {
-    const lineStart = inputStateValue.lineFrom;
-    const lineEnd = inputStateValue.lineTo;
+  for (const session of state.field(sessionsState)) {
+    if (!session.showInput) continue;
+
+    const lineStart = state.doc.lineAt(session.from).number;
+    const lineEnd = state.doc.lineAt(session.to).number;
 
     // Iterate in whole lines, but get the pos of each line's first
     // character for each, because that's what ranges want.
@@ -154,7 +146,7 @@ export const inputPromptDecoration = EditorView.decorations.compute([inputState]
       if (line === lineStart) {
         decorations.push(
           Decoration.widget({
-            widget: new InputWidget(options.prompt),
+            widget: new InputWidget(session.id, session.loading),
             side: -1,
           }).range(pos),
         );
@@ -162,27 +154,62 @@ export const inputPromptDecoration = EditorView.decorations.compute([inputState]
     }
   }
 
-  return Decoration.set(decorations);
+  return Decoration.set(decorations, true);
 });
 
 /**
- * Decoration highlighting old code with red
+ * Decoration highlighting old code with red,
+ * one block per hunk placed where its lines were removed.
  *
- * Depends on the completionState facet.
+ * Depends on the sessionsState field.
  */
 export const oldCodeDecoration = StateField.define<DecorationSet>({
   create(_state: EditorState) {
     return Decoration.none;
   },
   update(_oldState, tr) {
-    const completionStateValue = tr.state.field(completionState);
-    if (!completionStateValue) return Decoration.none;
-    return Decoration.set([
-      Decoration.widget({
-        widget: new OldCodeWidget(completionStateValue.oldCode),
-        block: true,
-      }).range(completionStateValue.from),
-    ]);
+    const { wordDiff } = tr.state.facet(optionsFacet);
+    const decorations: Array<Range<Decoration>> = [];
+
+    for (const session of tr.state.field(sessionsState)) {
+      // Wait for streamed completions to finish before offering accept/reject
+      if (!hasCompletion(session) || session.loading) continue;
+
+      const alternatives =
+        session.turns.length > 0
+          ? { index: session.alternativeIndex, count: session.alternatives.length }
+          : null;
+
+      const hunks = getHunks(session);
+      if (hunks.length === 0) {
+        // Nothing changed, but the completion still needs to be closed
+        decorations.push(
+          Decoration.widget({
+            widget: new OldCodeWidget(session.id, "", 0, 1, [], alternatives),
+            block: true,
+          }).range(session.from),
+        );
+        continue;
+      }
+
+      hunks.forEach((hunk, index) => {
+        decorations.push(
+          Decoration.widget({
+            widget: new OldCodeWidget(
+              session.id,
+              hunk.oldCode,
+              index,
+              hunks.length,
+              wordDiff ? computeWordChanges(hunk).removed : [],
+              index === 0 ? alternatives : null,
+            ),
+            block: true,
+          }).range(hunk.from),
+        );
+      });
+    }
+
+    return Decoration.set(decorations, true);
   },
   provide: (f) => EditorView.decorations.from(f),
 });
@@ -1,19 +1,58 @@
-import { combineConfig, Facet, StateEffect, StateField } from "@codemirror/state";
+import {
+  combineConfig,
+  type EditorState,
+  Facet,
+  StateEffect,
+  StateField,
+  type Transaction,
+} from "@codemirror/state";
 import type { EditorView } from "@codemirror/view";
+import type { TextStream } from "./stream.js";
 
 export interface CreateEditOpts {
   prompt: string;
   editorView: EditorView;
+  /** The originally selected code, also when refining a proposal */
   selection: string;
   codeBefore: string;
   codeAfter: string;
   signal?: AbortSignal;
+  /** When refining, the currently proposed code that the prompt follows up on */
+  proposal?: string;
+  /** Earlier prompts and responses for this edit, oldest first */
+  history?: AiEditTurn[];
+  /**
+   * Which attempt at this prompt this is, starting at 1. Regenerating
+   * increments it, e.g. so backends can raise the temperature.
+   */
+  attempt?: number;
 }
 
-export type CompleteFunction = (opts: CreateEditOpts) => Promise<string>;
+/**
+ * A prompt and the code it produced, kept so follow-up
+ * prompts can build on the conversation so far.
+ */
+export interface AiEditTurn {
+  prompt: string;
+  response: string;
+}
+
+/**
+ * The replacement code, either as a whole string or as a stream
+ * of chunks that are written into the document as they arrive.
+ */
+export type CompletionResult = string | TextStream;
+
+export type CompleteFunction = (
+  opts: CreateEditOpts,
+) => Promise<CompletionResult> | AsyncIterable<string>;
 
 export interface AiOptions {
-  /** Function to generate completions */
+  /**
+   * Function to generate completions. May resolve to the whole
+   * replacement, or return a stream (e.g. an async generator) to
+   * write the replacement into the document chunk by chunk.
+   */
   prompt: CompleteFunction;
   /** Called when an error occurs during completion */
   onError?: (error: Error) => void;
@@ -24,6 +63,12 @@ export interface AiOptions {
   onRejectEdit?: (opts: CreateEditOpts) => void;
   /** Debounce time in ms for input handling */
   inputDebounceTime?: number;
+  /**
+   * Highlight the changed words within changed lines,
+   * in addition to highlighting the lines themselves.
+   * @default false
+   */
+  wordDiff?: boolean;
   /** Custom keymaps */
   keymaps?: {
     showInput?: string;
@@ -54,6 +99,7 @@ export const optionsFacet = Facet.define<AiOptions, AiOptions>({
         onError: console.error,
         inputDebounceTime: DEFAULT_DEBOUNCE_TIME,
         keymaps: defaultKeymaps,
+        wordDiff: false,
       },
       {
         // This TypeScript error is more of a lint - it says that
@@ -64,21 +110,11 @@ export const optionsFacet = Facet.define<AiOptions, AiOptions>({
         onError: (a, b) => a && b,
         inputDebounceTime: (a, b) => a && b,
         keymaps: (a, b) => a && b,
+        wordDiff: (a, b) => a || b,
       },
     ),
 });
 
-export interface InputState {
-  show: boolean;
-  lineFrom: number;
-  lineTo: number;
-}
-
-export interface InputValueState {
-  shouldFocus: boolean;
-  inputValue: string;
-}
-
 export interface CompletionState {
   from: number;
   to: number;
@@ -87,98 +123,165 @@ export interface CompletionState {
 }
 
 /**
- * State effect to show/hide the input
+ * A single AI edit in the editor, from the prompt input
+ * through to the pending result. Several sessions can be
+ * open at once, e.g. one generating while another is prompted.
  */
-export const showInput = StateEffect.define<InputState>();
+export interface AiEditSession {
+  /** Unique id of the session */
+  id: number;
+  /**
+   * Range of the session in the document: the selected lines
+   * while prompting, and the new code once a result arrives.
+   * Mapped through document changes.
+   */
+  from: number;
+  to: number;
+  /** Whether the prompt input is shown */
+  showInput: boolean;
+  /** Whether the input should grab focus when rendered */
+  shouldFocus: boolean;
+  /** Current value of the prompt input */
+  inputValue: string;
+  /** Whether a result is being generated */
+  loading: boolean;
+  /** Aborts the pending request, if any */
+  abortController: AbortController | null;
+  /** The code that was replaced */
+  oldCode: string;
+  /** The proposed code, once a result has (started to) arrive */
+  newCode: string | null;
+  /** Completed prompts and responses, for follow-up prompts */
+  turns: readonly AiEditTurn[];
+  /** Results generated for the last prompt, to cycle through */
+  alternatives: readonly string[];
+  /** Index of the current result in `alternatives` */
+  alternativeIndex: number;
+}
 
 /**
- * State field to manage the input visibility and position
+ * A session that has received a result.
  */
-export const inputState = StateField.define<InputState>({
-  create() {
-    return { show: false, lineFrom: 0, lineTo: 0 };
-  },
-  update(value, tr) {
-    for (const e of tr.effects) {
-      if (e.is(showInput)) {
-        return e.value;
-      }
-    }
-    return value;
-  },
-});
+export type AiEditCompletion = AiEditSession & { newCode: string };
+
+export function hasCompletion(session: AiEditSession): session is AiEditCompletion {
+  return session.newCode !== null;
+}
+
+let nextSessionId = 1;
 
 /**
- * State effect to set the input value
+ * Creates a session with a prompt input over the given range.
  */
-export const setInputValue = StateEffect.define<string>();
+export function createSession(from: number, to: number): AiEditSession {
+  return {
+    id: nextSessionId++,
+    from,
+    to,
+    showInput: true,
+    shouldFocus: true,
+    inputValue: "",
+    loading: false,
+    abortController: null,
+    oldCode: "",
+    newCode: null,
+    turns: [],
+    alternatives: [],
+    alternativeIndex: 0,
+  };
+}
+
 /**
- * State effect to set the input focus
+ * State effect to add a session
  */
-export const setInputFocus = StateEffect.define<boolean>();
+export const addSession = StateEffect.define<AiEditSession>();
 
 /**
- * State field for the input focus and value
+ * State effect to update some properties of a session.
+ * Positions are in the coordinates of the transaction's new document.
  */
-export const inputValueState = StateField.define<InputValueState>({
-  create() {
-    return { shouldFocus: false, inputValue: "" };
-  },
-  update(value, tr) {
-    let updated = value;
-    for (const e of tr.effects) {
-      if (e.is(setInputValue)) {
-        updated = { ...updated, inputValue: e.value };
-      }
-      if (e.is(setInputFocus)) {
-        updated = { ...updated, shouldFocus: e.value };
-      }
-    }
-    return updated;
-  },
-});
+export const updateSession = StateEffect.define<
+  { id: number } & Partial<Omit<AiEditSession, "id">>
+>();
 
 /**
- * State effect to show/hide the completion
+ * State effect to remove a session by id
  */
-export const showCompletion = StateEffect.define<CompletionState | null>();
+export const removeSession = StateEffect.define<number>();
 
 /**
- * State field to manage the completion
+ * Maps a session through a document change.
+ *
+ * The range follows edits around it. Edits that touch the range (including
+ * insertions at either end) make it grow, and for sessions with a result the
+ * edited text becomes part of the proposal: `newCode` is kept in sync with the
+ * document so the diff, hunks and reject keep working on the right text.
+ * A reviewable result whose text is deleted entirely is dropped, as if accepted.
  */
-export const completionState = StateField.define<CompletionState | null>({
-  create() {
+function mapSession(session: AiEditSession, tr: Transaction): AiEditSession | null {
+  const from = tr.changes.mapPos(session.from, -1);
+  const to = Math.max(from, tr.changes.mapPos(session.to, 1));
+
+  let touched = false;
+  tr.changes.iterChangedRanges((fromA, toA) => {
+    if (fromA <= session.to && toA >= session.from) touched = true;
+  });
+
+  if (!touched || !hasCompletion(session)) {
+    return from === session.from && to === session.to ? session : { ...session, from, to };
+  }
+  if (from === to && session.from !== session.to && !session.loading) {
     return null;
+  }
+  return { ...session, from, to, newCode: tr.newDoc.sliceString(from, to) };
+}
+
+/**
+ * State field holding all sessions, ordered by creation.
+ */
+export const sessionsState = StateField.define<readonly AiEditSession[]>({
+  create() {
+    return [];
   },
   update(value, tr) {
+    let sessions = value;
+    if (tr.docChanged && sessions.length > 0) {
+      sessions = sessions.flatMap((session) => {
+        const mapped = mapSession(session, tr);
+        return mapped ? [mapped] : [];
+      });
+    }
     for (const e of tr.effects) {
-      if (e.is(showCompletion)) {
-        return e.value;
+      if (e.is(addSession)) {
+        sessions = [...sessions, e.value];
+      } else if (e.is(updateSession)) {
+        const { id, ...update } = e.value;
+        sessions = sessions.map((session) =>
+          session.id === id ? { ...session, ...update } : session,
+        );
+      } else if (e.is(removeSession)) {
+        sessions = sessions.filter((session) => session.id !== e.value);
       }
     }
-    return value;
+    return sessions;
   },
 });
 
 /**
- * State effect and field for loading status
+ * Find a session by id.
  */
-export const setLoading = StateEffect.define<boolean>();
+export function getSession(state: EditorState, id: number): AiEditSession | undefined {
+  return state.field(sessionsState, false)?.find((session) => session.id === id);
+}
 
 /**
- * State effect that manages whether the displayed UI
- * shows a loading indicator or not.
+ * Find the most recent session whose range contains the position.
  */
-export const loadingState = StateField.define<boolean>({
-  create() {
-    return false;
-  },
-  update(value, tr) {
-    for (const e of tr.effects) {
-      if (e.is(setLoading)) {
-        return e.value;
-      }
-    }
-    return value;
-  },
-});
+export function getSessionAt(state: EditorState, pos: number): AiEditSession | undefined {
+  const sessions = state.field(sessionsState, false) ?? [];
+  for (let i = sessions.length - 1; i >= 0; i--) {
+    const session = sessions[i];
+    if (session && session.from <= pos && pos <= session.to) return session;
+  }
+  return undefined;
+}
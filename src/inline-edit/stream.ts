@@ -0,0 +1,148 @@
+/**
+ * A stream of text chunks, as returned by most LLM SDKs
+ * (async iterables) or by `fetch` response pipelines (readable streams).
+ */
+export type TextStream = AsyncIterable<string> | ReadableStream<string>;
+
+/**
+ * Whether the value is a stream of text chunks rather than a whole string.
+ */
+export function isTextStream(value: unknown): value is TextStream {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  return Symbol.asyncIterator in value || typeof (value as ReadableStream).getReader === "function";
+}
+
+/**
+ * Iterates over the chunks of a text stream, stopping as soon as
+ * the signal is aborted. The underlying stream is cancelled (or its
+ * iterator returned) so producers can release their resources.
+ */
+export async function* readTextStream(
+  stream: TextStream,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  // ReadableStream is not async-iterable in every browser, so prefer the reader.
+  if (typeof (stream as ReadableStream<string>).getReader === "function") {
+    const reader = (stream as ReadableStream<string>).getReader();
+    const onAbort = () => {
+      reader.cancel().catch(() => {
+        // ignore
+      });
+    };
+    signal?.addEventListener("abort", onAbort);
+    try {
+      while (!signal?.aborted) {
+        const { done, value } = await reader.read();
+        if (done || signal?.aborted) return;
+        if (value) yield value;
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      reader.releaseLock();
+    }
+    return;
+  }
+
+  const iterator = (stream as AsyncIterable<string>)[Symbol.asyncIterator]();
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await iterator.next();
+      if (done || signal?.aborted) return;
+      if (value) yield value;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
+
+/**
+ * Calls `release` once a result is fully read: right away for a whole
+ * result, and for a stream when it ends, fails, is no longer read, or
+ * `signal` is aborted. Streams are wrapped to notice this, so limits on
+ * requests in flight also count the time spent streaming.
+ */
+export function releaseWhenRead<T>(result: T, release: () => void, signal?: AbortSignal): T {
+  if (!isTextStream(result)) {
+    release();
+    return result;
+  }
+
+  let released = false;
+  const releaseOnce = () => {
+    if (released) return;
+    released = true;
+    signal?.removeEventListener("abort", releaseOnce);
+    release();
+  };
+  signal?.addEventListener("abort", releaseOnce);
+
+  async function* read() {
+    try {
+      yield* readTextStream(result as TextStream, signal);
+    } finally {
+      releaseOnce();
+    }
+  }
+  // Still a TextStream, which is all callers may rely on
+  return read() as T;
+}
+
+const OPENING_FENCE = /^\s*```[^\n]*\n/;
+const CLOSING_FENCE = /\n?```\s*$/;
+
+/**
+ * Removes the markdown code fence that models often wrap code in.
+ * Text without a fence is returned as is.
+ */
+export function stripCodeFences(text: string): string {
+  if (!OPENING_FENCE.test(text)) {
+    return text;
+  }
+  return text.replace(OPENING_FENCE, "").replace(CLOSING_FENCE, "");
+}
+
+/**
+ * Streaming version of `stripCodeFences`. The opening fence line is held
+ * back until it is complete, and the last line until the stream ends,
+ * in case it is the closing fence.
+ */
+export async function* stripCodeFenceStream(stream: AsyncIterable<string>): AsyncGenerator<string> {
+  let buffer = "";
+  let fenced: boolean | null = null;
+
+  for await (const chunk of stream) {
+    buffer += chunk;
+
+    if (fenced === null) {
+      const start = buffer.trimStart();
+      // Wait until we know whether the first line is a fence
+      if (!buffer.includes("\n") && (start.startsWith("```") || "```".startsWith(start))) {
+        continue;
+      }
+      fenced = OPENING_FENCE.test(buffer);
+      if (fenced) {
+        buffer = buffer.replace(OPENING_FENCE, "");
+      }
+    }
+
+    if (!fenced) {
+      yield buffer;
+      buffer = "";
+      continue;
+    }
+
+    const lastNewline = buffer.lastIndexOf("\n");
+    if (lastNewline > 0) {
+      yield buffer.slice(0, lastNewline);
+      buffer = buffer.slice(lastNewline);
+    }
+  }
+
+  const rest =
+    fenced === null ? stripCodeFences(buffer) : fenced ? buffer.replace(CLOSING_FENCE, "") : buffer;
+  if (rest) {
+    yield rest;
+  }
+}
@@ -0,0 +1,137 @@
+import type { EditorState } from "@codemirror/state";
+import { LRUCache } from "../utils/lru.js";
+
+/**
+ * What a cached suggestion depends on: a window of text around the
+ * cursor, and a caller-supplied context key for anything else
+ * (e.g. the file name or the kernel's state).
+ */
+export interface SuggestionCacheKey {
+  prefix: string;
+  suffix: string;
+  context: string;
+}
+
+/**
+ * Cache for inline suggestions. Implement this to share suggestions
+ * across editors, or pass one `SuggestionCache` to several of them.
+ */
+export interface InlineCompletionCache {
+  get(key: SuggestionCacheKey): readonly string[] | null;
+  set(key: SuggestionCacheKey, suggestions: readonly string[]): void;
+  /** Drops all suggestions */
+  clear(): void;
+  /** Drops the suggestions cached for a context key */
+  invalidate(context: string): void;
+}
+
+const PREFIX_WINDOW = 1000;
+const SUFFIX_WINDOW = 200;
+
+/**
+ * Builds the cache key for a suggestion at `pos`. Only the text near the
+ * cursor is part of the key, so edits far away from it still hit the cache.
+ */
+export function suggestionCacheKey(
+  state: EditorState,
+  pos: number,
+  context = "",
+): SuggestionCacheKey {
+  return {
+    prefix: state.doc.sliceString(Math.max(0, pos - PREFIX_WINDOW), pos),
+    suffix: state.doc.sliceString(pos, pos + SUFFIX_WINDOW),
+    context,
+  };
+}
+
+export interface SuggestionCacheOptions {
+  /**
+   * Maximum number of cached suggestions. The least recently
+   * used ones are evicted first.
+   * @default 100
+   */
+  maxSize?: number;
+  /**
+   * Time in ms after which a cached suggestion expires.
+   * @default 10000 // 10 seconds
+   */
+  ttl?: number;
+}
+
+export interface SuggestionCacheStats {
+  hits: number;
+  misses: number;
+  /** Number of suggestions currently cached */
+  size: number;
+}
+
+interface CacheEntry {
+  context: string;
+  result: readonly string[];
+  timestamp: number;
+}
+
+/**
+ * Bounded in-memory cache for inline suggestions, with
+ * TTL and size eviction and hit/miss stats.
+ */
+export class SuggestionCache implements InlineCompletionCache {
+  private cache: LRUCache<string, CacheEntry>;
+  private ttl: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(opts: SuggestionCacheOptions = {}) {
+    this.cache = new LRUCache(opts.maxSize ?? 100);
+    this.ttl = opts.ttl ?? 10_000;
+  }
+
+  get(key: SuggestionCacheKey): readonly string[] | null {
+    const id = this.id(key);
+    const entry = this.cache.get(id);
+    if (!entry || this.isExpired(entry)) {
+      if (entry) this.cache.delete(id);
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    return entry.result;
+  }
+
+  set(key: SuggestionCacheKey, suggestions: readonly string[]) {
+    this.evictExpired();
+    this.cache.set(this.id(key), {
+      context: key.context,
+      result: suggestions,
+      timestamp: Date.now(),
+    });
+  }
+
+  clear() {
+    this.cache.clear();
+  }
+
+  invalidate(context: string) {
+    for (const [id, entry] of [...this.cache.entries()]) {
+      if (entry.context === context) this.cache.delete(id);
+    }
+  }
+
+  stats(): SuggestionCacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.cache.size };
+  }
+
+  private id({ prefix, suffix, context }: SuggestionCacheKey) {
+    return `${context}\u0000${prefix}\u0000${suffix}`;
+  }
+
+  private isExpired(entry: CacheEntry) {
+    return Date.now() - entry.timestamp > this.ttl;
+  }
+
+  private evictExpired() {
+    for (const [id, entry] of [...this.cache.entries()]) {
+      if (this.isExpired(entry)) this.cache.delete(id);
+    }
+  }
+}
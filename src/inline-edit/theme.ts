@@ -55,13 +55,25 @@ export const aiTheme = EditorView.baseTheme({
     // 	backgroundColor: "color-mix(in srgb, rgb(50, 50, 50) 50%, transparent) !important",
     // },
   },
-  ".cm-line:has(.cm-new-code-line)": {
+  ".cm-line.cm-new-code-line": {
     backgroundColor:
       "light-dark(color-mix(in srgb, rgb(183, 235, 143) 50%, transparent), color-mix(in srgb, rgb(40, 100, 40) 50%, transparent)) !important",
     // "@media (prefers-color-scheme: dark)": {
     // 	backgroundColor: "color-mix(in srgb, rgb(40, 100, 40) 50%, transparent) !important",
     // },
   },
+  ".cm-new-code-word": {
+    backgroundColor:
+      "light-dark(color-mix(in srgb, rgb(120, 200, 80) 60%, transparent), color-mix(in srgb, rgb(60, 150, 60) 60%, transparent))",
+  },
+  ".cm-old-code": {
+    display: "flex",
+    flexDirection: "column",
+    flexGrow: "1",
+  },
+  ".cm-old-code-word": {
+    backgroundColor: "light-dark(rgb(255, 160, 160), rgb(150, 50, 50))",
+  },
   ".cm-old-code-container": {
     backgroundColor: "light-dark(rgb(255, 205, 205), rgb(100, 40, 40))",
     position: "relative",
@@ -117,6 +129,40 @@ export const aiTheme = EditorView.baseTheme({
       filter: "brightness(100%)",
     },
   },
+  ".cm-floating-accept.cm-floating-all": {
+    marginLeft: "6px",
+  },
+  ".cm-ai-alternatives": {
+    display: "flex",
+    alignItems: "center",
+    gap: "2px",
+    marginLeft: "6px",
+    fontSize: "10px",
+  },
+  ".cm-ai-alternative-count": {
+    padding: "0 2px",
+    color: "light-dark(rgb(109, 117, 125), rgb(170, 170, 170))",
+  },
+  ".cm-ai-alternative-button, .cm-ai-regenerate-button": {
+    padding: "2px 5px",
+    fontSize: "10px",
+    borderRadius: "4px",
+    cursor: "pointer",
+    color: "light-dark(rgb(109, 117, 125), rgb(170, 170, 170))",
+    "&:hover": {
+      background: "light-dark(rgb(223, 227, 232), rgb(50, 50, 50))",
+    },
+  },
+  ".cm-ai-refine-form": {
+    marginLeft: "6px",
+  },
+  ".cm-ai-refine-input": {
+    width: "200px",
+    padding: "1px 6px",
+    border: "1px solid rgb(51, 154, 240)",
+    borderRadius: "5px",
+    fontSize: "10px",
+  },
   ".hotkey": {
     display: "inline-block",
     padding: "0 4px",
@@ -2,7 +2,7 @@ import { combineConfig, Facet } from "@codemirror/state";
 import { EditorView, type PluginValue, ViewPlugin, type ViewUpdate } from "@codemirror/view";
 import { ce, formatKeymap } from "../utils.js";
 import { showAiEditInput } from "./commands.js";
-import { defaultKeymaps, inputState, optionsFacet } from "./state.js";
+import { defaultKeymaps, optionsFacet, sessionsState } from "./state.js";
 
 /**
  * Options to customize trigger rendering.
@@ -117,8 +117,12 @@ export const triggerViewPlugin = ViewPlugin.fromClass(
     }
 
     display(view: EditorView) {
-      const inputStateValue = view.state.field(inputState);
-      if (inputStateValue.show) {
+      // Hide the trigger while the selection is already being edited
+      const { from, to } = view.state.selection.main;
+      const sessions = view.state.field(sessionsState);
+      if (
+        sessions.some((session) => session.showInput && session.from <= to && from <= session.to)
+      ) {
         this.dom.style.display = "none";
         return;
       }
@@ -1,109 +1,298 @@
 import { type EditorView, WidgetType } from "@codemirror/view";
 import { ce, formatKeymap } from "../utils.js";
-import { acceptAiEdit, rejectAiEdit } from "./commands.js";
 import {
-  type CompleteFunction,
-  defaultKeymaps,
-  inputState,
-  inputValueState,
-  loadingState,
-  optionsFacet,
-  setInputFocus,
-  setInputValue,
-  setLoading,
-  showCompletion,
-  showInput,
-} from "./state.js";
+  acceptAiEditHunk,
+  acceptAiEditSession,
+  cancelAiEditSession,
+  cycleAiEditAlternative,
+  refineAiEditSession,
+  regenerateAiEditSession,
+  rejectAiEditHunk,
+  rejectAiEditSession,
+  submitAiEditSession,
+} from "./commands.js";
+import type { WordRange } from "./hunks.js";
+import { defaultKeymaps, getSession, optionsFacet, updateSession } from "./state.js";
+
+/**
+ * The results generated for a session's last prompt,
+ * shown next to the regenerate button.
+ */
+export interface AlternativesInfo {
+  /** Index of the current result */
+  index: number;
+  /** Number of results */
+  count: number;
+}
 
 /**
  * This is the accept / reject UI that shows when you've
  * gotten a recommended change and can decide on it.
  *
  * Also shows the 'old code' in red by adding
- * it manually as a div.
+ * it manually as a div. There is one widget per hunk;
+ * the first one also offers to accept or reject all hunks,
+ * and to refine the result with a follow-up prompt.
  */
 export class OldCodeWidget extends WidgetType {
-  constructor(private oldCode: string) {
+  constructor(
+    private sessionId: number,
+    private oldCode: string,
+    private hunkIndex = 0,
+    private hunkCount = 1,
+    /** Removed words to highlight, as offsets into `oldCode` */
+    private removedWords: WordRange[] = [],
+    /** Offers to regenerate the result, if set */
+    private alternatives: AlternativesInfo | null = null,
+  ) {
     super();
   }
 
+  eq(other: OldCodeWidget) {
+    return (
+      other.sessionId === this.sessionId &&
+      other.oldCode === this.oldCode &&
+      other.hunkIndex === this.hunkIndex &&
+      other.hunkCount === this.hunkCount &&
+      other.alternatives?.index === this.alternatives?.index &&
+      other.alternatives?.count === this.alternatives?.count &&
+      other.removedWords.length === this.removedWords.length &&
+      other.removedWords.every(
+        (range, i) =>
+          range.from === this.removedWords[i]?.from && range.to === this.removedWords[i]?.to,
+      )
+    );
+  }
+
   toDOM(view: EditorView) {
     /**
      * div.cm-old-code-container
-     * -- div.cm-old-code.cm-line
+     * -- div.cm-old-code
+     * ---- div.cm-old-code-line.cm-line (one per removed line)
+     * ------ span.cm-old-code-word (removed words, if enabled)
      * -- div.cm-floating-buttons
      * ---- div.cm-floating-button.cm-floating-accept
      * ---- div.cm-floating-button.cm-floating-reject
+     * ---- div.cm-ai-alternatives (first hunk only)
+     * ------ button.cm-ai-alternative-button (previous, if several)
+     * ------ span.cm-ai-alternative-count (if several)
+     * ------ button.cm-ai-alternative-button (next, if several)
+     * ------ button.cm-ai-regenerate-button
+     * ---- form.cm-ai-refine-form (first hunk only)
+     * ------ input.cm-ai-refine-input
      */
 
     const container = ce("div", "cm-old-code-container");
     container.setAttribute("role", "region");
     container.setAttribute("aria-label", "Previous code version");
 
-    const oldCodeEl = ce("div", "cm-old-code cm-line");
-    oldCodeEl.textContent = this.oldCode;
-
     const buttonsContainer = ce("div", "cm-floating-buttons");
 
     const options = view.state.facet(optionsFacet);
     const keymaps = { ...defaultKeymaps, ...options.keymaps };
 
-    const acceptButton = ce("button", "cm-floating-button cm-floating-accept");
-    acceptButton.innerHTML = `<span class="hotkey">${formatKeymap(keymaps.acceptEdit)}</span> Accept`;
-    acceptButton.setAttribute("aria-label", "Accept changes");
-    acceptButton.addEventListener("click", (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      view.focus();
-      acceptAiEdit(view);
-    });
+    const createButton = (
+      className: string,
+      label: string,
+      ariaLabel: string,
+      run: () => boolean,
+      hotkey?: string,
+    ) => {
+      const button = ce("button", `cm-floating-button ${className}`);
+      if (hotkey) {
+        const hotkeyEl = button.appendChild(ce("span", "hotkey"));
+        hotkeyEl.textContent = formatKeymap(hotkey);
+      }
+      button.append(hotkey ? ` ${label}` : label);
+      button.setAttribute("aria-label", ariaLabel);
+      button.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        view.focus();
+        run();
+      });
+      return button;
+    };
+
+    if (this.hunkCount === 1) {
+      buttonsContainer.append(
+        createButton(
+          "cm-floating-accept",
+          "Accept",
+          "Accept changes",
+          () => acceptAiEditSession(view, this.sessionId),
+          keymaps.acceptEdit,
+        ),
+        createButton(
+          "cm-floating-reject",
+          "Reject",
+          "Reject changes",
+          () => rejectAiEditSession(view, this.sessionId),
+          keymaps.rejectEdit,
+        ),
+      );
+    } else {
+      buttonsContainer.append(
+        createButton("cm-floating-accept", "Accept", "Accept this change", () =>
+          acceptAiEditHunk(view, this.hunkIndex, this.sessionId),
+        ),
+        createButton("cm-floating-reject", "Reject", "Reject this change", () =>
+          rejectAiEditHunk(view, this.hunkIndex, this.sessionId),
+        ),
+      );
+      if (this.hunkIndex === 0) {
+        buttonsContainer.append(
+          createButton(
+            "cm-floating-accept cm-floating-all",
+            "Accept all",
+            "Accept all changes",
+            () => acceptAiEditSession(view, this.sessionId),
+            keymaps.acceptEdit,
+          ),
+          createButton(
+            "cm-floating-reject cm-floating-all",
+            "Reject all",
+            "Reject all changes",
+            () => rejectAiEditSession(view, this.sessionId),
+            keymaps.rejectEdit,
+          ),
+        );
+      }
+    }
 
-    const rejectButton = ce("button", "cm-floating-button cm-floating-reject");
-    rejectButton.innerHTML = `<span class="hotkey">${formatKeymap(keymaps.rejectEdit)}</span> Reject`;
-    rejectButton.setAttribute("aria-label", "Reject changes");
-    rejectButton.addEventListener("click", (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      view.focus();
-      rejectAiEdit(view);
-    });
+    if (this.alternatives) {
+      buttonsContainer.append(this.renderAlternatives(view, this.alternatives));
+    }
+    if (this.hunkIndex === 0) {
+      buttonsContainer.append(this.renderRefineForm(view));
+    }
 
-    buttonsContainer.append(acceptButton, rejectButton);
-    container.append(oldCodeEl, buttonsContainer);
+    if (this.oldCode) {
+      container.append(this.renderOldCode());
+    }
+    container.append(buttonsContainer);
 
     return container;
   }
 
-  updateDOM(_dom: HTMLElement, _view: EditorView) {
-    // Don't update the DOM
-    return true;
+  /**
+   * Renders the regenerate button, and the controls to flip
+   * between the results once there are several.
+   */
+  private renderAlternatives(view: EditorView, alternatives: AlternativesInfo) {
+    const container = ce("div", "cm-ai-alternatives");
+
+    const createButton = (className: string, label: string, ariaLabel: string, run: () => void) => {
+      const button = ce("button", className);
+      button.textContent = label;
+      button.setAttribute("aria-label", ariaLabel);
+      button.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        view.focus();
+        run();
+      });
+      return button;
+    };
+
+    if (alternatives.count > 1) {
+      const count = ce("span", "cm-ai-alternative-count");
+      count.textContent = `${alternatives.index + 1}/${alternatives.count}`;
+      container.append(
+        createButton("cm-ai-alternative-button", "‹", "Previous result", () =>
+          cycleAiEditAlternative(view, this.sessionId, -1),
+        ),
+        count,
+        createButton("cm-ai-alternative-button", "›", "Next result", () =>
+          cycleAiEditAlternative(view, this.sessionId, 1),
+        ),
+      );
+    }
+    container.append(
+      createButton("cm-ai-regenerate-button", "↻ Regenerate", "Regenerate changes", () => {
+        void regenerateAiEditSession(view, this.sessionId);
+      }),
+    );
+    return container;
+  }
+
+  /**
+   * Renders the follow-up input, which replaces the
+   * proposal with the result of a refined prompt.
+   */
+  private renderRefineForm(view: EditorView) {
+    const form = ce("form", "cm-ai-refine-form");
+    form.setAttribute("aria-label", "Refine AI edit");
+    form.addEventListener("submit", (e) => e.preventDefault());
+
+    const input = form.appendChild(ce("input", "cm-ai-refine-input"));
+    input.placeholder = "Follow-up instructions...";
+    input.setAttribute("aria-label", "Follow-up instructions");
+    input.setAttribute("autocomplete", "off");
+    input.setAttribute("spellcheck", "true");
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault();
+        void refineAiEditSession(view, this.sessionId, input.value);
+      } else if (e.key === "Escape") {
+        view.focus();
+      }
+    });
+    return form;
+  }
+
+  /**
+   * Renders each removed line as its own line, so the block
+   * reads like the lines it replaces.
+   */
+  private renderOldCode() {
+    const oldCodeEl = ce("div", "cm-old-code");
+    // Hunks end with the newline of their last line, which the block already implies
+    const lines = this.oldCode.replace(/\n$/, "").split("\n");
+    let lineStart = 0;
+    for (const line of lines) {
+      const lineEl = oldCodeEl.appendChild(ce("div", "cm-old-code-line cm-line"));
+      const lineEnd = lineStart + line.length;
+      let pos = lineStart;
+      for (const range of this.removedWords) {
+        const from = Math.max(range.from, lineStart);
+        const to = Math.min(range.to, lineEnd);
+        if (from >= to) continue;
+        if (from > pos) lineEl.append(this.oldCode.slice(pos, from));
+        const word = lineEl.appendChild(ce("span", "cm-old-code-word"));
+        word.textContent = this.oldCode.slice(from, to);
+        pos = to;
+      }
+      if (lineEnd > pos) lineEl.append(this.oldCode.slice(pos, lineEnd));
+      // Keep empty lines from collapsing
+      if (!line) lineEl.append(document.createElement("br"));
+      lineStart = lineEnd + 1;
+    }
+    return oldCodeEl;
   }
 }
 
 /**
  * Input widget. This contains the text area in which
- * people can type prompts.
+ * people can type prompts. The widget reads and writes
+ * everything through its session, so it can be re-created
+ * freely by the decorations.
  */
 export class InputWidget extends WidgetType {
-  private abortController: AbortController | null = null;
-  private dom: HTMLElement | null = null;
-  private input: HTMLInputElement | null = null;
-  private loadingContainer: HTMLDivElement | null = null;
-  private helpInfo: HTMLDivElement | null = null;
-  private inputContainer: HTMLDivElement | null = null;
-  private form: HTMLFormElement | null = null;
-  private view: EditorView | null = null;
-
-  constructor(private complete: CompleteFunction) {
+  constructor(
+    private sessionId: number,
+    private loading: boolean,
+  ) {
     super();
   }
 
-  toDOM(view: EditorView) {
-    if (this.dom) return this.dom;
+  eq(other: InputWidget) {
+    return other.sessionId === this.sessionId && other.loading === this.loading;
+  }
 
-    this.view = view;
-    const inputValue = view.state.field(inputValueState);
-    const isLoading = view.state.field(loadingState);
+  toDOM(view: EditorView) {
+    const sessionId = this.sessionId;
+    const session = getSession(view.state, sessionId);
 
     /**
      * div.cm-ai-input-container
@@ -118,27 +307,35 @@ export class InputWidget extends WidgetType {
      */
 
     const inputContainer = ce("div", "cm-ai-input-container");
-    this.inputContainer = inputContainer;
-    this.dom = inputContainer;
 
     const form = ce("form", "cm-ai-input-form");
-    this.form = form;
     form.setAttribute("role", "search");
     form.setAttribute("aria-label", "AI editing instructions");
     form.addEventListener("submit", (e) => e.preventDefault());
 
     const input = ce("input", "cm-ai-input");
-    this.input = input;
     form.append(input);
     input.placeholder = "Editing instructions...";
     input.setAttribute("aria-label", "AI editing instructions");
     input.setAttribute("autocomplete", "off");
     input.setAttribute("spellcheck", "true");
     // Set initial value
-    input.value = inputValue.inputValue;
+    input.value = session?.inputValue ?? "";
+
+    const onCancel = () => {
+      cancelAiEditSession(view, sessionId);
+      view.focus();
+    };
+
+    const onSubmit = (e?: Event) => {
+      // Prevent a click event on the submit button
+      // passing-through to the cancel button when we unhide
+      // the helpInfo div.
+      e?.stopPropagation();
+      void submitAiEditSession(view, sessionId);
+    };
 
     const loadingContainer = ce("div", "cm-ai-loading-container");
-    this.loadingContainer = loadingContainer;
 
     const loadingIndicator = ce("div", "cm-ai-loading-indicator");
     loadingIndicator.setAttribute("role", "status");
@@ -148,39 +345,43 @@ export class InputWidget extends WidgetType {
     const cancelButton = ce("button", "cm-ai-cancel-button");
     cancelButton.textContent = "Cancel";
     cancelButton.setAttribute("aria-label", "Cancel code generation");
-    cancelButton.addEventListener("click", this.onCancel);
+    cancelButton.addEventListener("click", onCancel);
 
     loadingContainer.append(cancelButton, loadingIndicator);
 
     const helpInfo = ce("div", "cm-ai-help-info");
-    this.helpInfo = helpInfo;
 
     const helpInfoButton = helpInfo.appendChild(document.createElement("button"));
     helpInfoButton.className = "cm-ai-help-info-button";
     helpInfoButton.textContent = "Esc to close";
-    helpInfoButton.addEventListener("click", this.onCancel);
+    helpInfoButton.addEventListener("click", onCancel);
 
     const generateButton = ce("button", "cm-ai-generate-button");
     generateButton.textContent = "⏎ Generate";
     generateButton.setAttribute("aria-label", "Generate code");
-    generateButton.addEventListener("click", this.handleSubmit);
+    generateButton.addEventListener("click", onSubmit);
 
-    this.toggleLoading(isLoading);
+    inputContainer.append(form, loadingContainer, helpInfo);
+    toggleLoading(inputContainer, this.loading);
 
-    // Focus if not the first render
-    if (inputValue.shouldFocus) {
+    if (session?.shouldFocus) {
       requestAnimationFrame(() => {
-        // Reset the input to its recorded value
-        input.value = inputValue.inputValue;
         input.focus();
-        view.dispatch({ effects: setInputFocus.of(false) });
+        view.dispatch({ effects: updateSession.of({ id: sessionId, shouldFocus: false }) });
       });
     }
 
     renderHelpInfo(input.value);
 
     input.addEventListener("input", handleInput);
-    input.addEventListener("keydown", this.onKeyDown);
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault();
+        onSubmit();
+      } else if (e.key === "Escape") {
+        onCancel();
+      }
+    });
 
     // Show the generate button if there's a value,
     // or the help/cancel button if there isn't.
@@ -189,9 +390,9 @@ export class InputWidget extends WidgetType {
     }
 
     // Handle input changes
-    let lastValue = "";
+    let lastValue = input.value.trim();
     function handleInput() {
-      view.dispatch({ effects: setInputValue.of(input.value) });
+      view.dispatch({ effects: updateSession.of({ id: sessionId, inputValue: input.value }) });
       const value = input.value.trim();
       if (value === lastValue) return;
       lastValue = value;
@@ -201,128 +402,20 @@ export class InputWidget extends WidgetType {
     return inputContainer;
   }
 
-  /**
-   * Determines whether we show the loading UI or the input UI,
-   * by putting either helpInfo or loadingContainer
-   * inside of inputContainer
-   */
-  toggleLoading(loading: boolean) {
-    if (this.inputContainer && this.form && this.loadingContainer && this.helpInfo) {
-      this.inputContainer?.replaceChildren(
-        this.form,
-        loading ? this.loadingContainer : this.helpInfo,
-      );
-    }
-  }
-
-  onKeyDown = async (e: KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
-      e.preventDefault();
-      await this.handleSubmit();
-    } else if (e.key === "Escape") {
-      this.onCancel();
-    }
-  };
-
-  onCancel = () => {
-    this.cleanup();
-    const view = this.view;
-    if (!view) return;
-    view.dispatch({
-      effects: [showInput.of({ show: false, lineFrom: 0, lineTo: 0 }), setLoading.of(false)],
-    });
-    view.focus();
-  };
-
-  handleSubmit = async (e?: Event) => {
-    const view = this.view;
-    if (!view) return;
-    const options = view.state.facet(optionsFacet);
-    // Prevent a click event on the submit button
-    // passing-through to the cancel button when we unhide
-    // the helpInfo div.
-    e?.stopPropagation();
-    const state = view.state.field(inputState);
-    const { input } = this;
-    if (!input) return;
-    const prompt = input.value.trim();
-
-    // Input validation
-    if (!state.show || !prompt) return;
-
-    // Get the full line content
-    const fromLine = view.state.doc.line(state.lineFrom);
-    const toLine = view.state.doc.line(state.lineTo);
-    const fromPos = fromLine.from;
-    const toPos = toLine.to;
-
-    const oldCode = view.state.sliceDoc(fromPos, toPos);
-    const codeBefore = view.state.sliceDoc(0, fromPos);
-    const codeAfter = view.state.sliceDoc(toPos);
-
-    this.abortController = new AbortController();
-    view.dispatch({ effects: setLoading.of(true) });
-    this.toggleLoading(true);
-
-    try {
-      const result = await this.complete({
-        prompt,
-        selection: oldCode,
-        codeBefore,
-        codeAfter,
-        editorView: view,
-        signal: this.abortController.signal,
-      });
-
-      if (!view.state.field(inputState).show) return;
-
-      // Validate result
-      if (!result || typeof result !== "string") {
-        throw new Error("Invalid completion result");
-      }
-
-      view.dispatch({
-        changes: { from: fromPos, to: toPos, insert: result },
-        effects: [
-          showInput.of({ show: false, lineFrom: 0, lineTo: 0 }),
-          showCompletion.of({
-            from: fromPos,
-            to: fromPos + result.length,
-            oldCode,
-            newCode: result,
-          }),
-          setLoading.of(false),
-        ],
-      });
-    } catch (error) {
-      if (error instanceof DOMException && error.name === "AbortError") {
-        return;
-      }
-      options.onError?.(error as Error);
-    } finally {
-      this.cleanup();
-      this.toggleLoading(false);
-      view.focus();
-    }
-  };
-
   updateDOM(dom: HTMLElement, _view: EditorView): boolean {
-    // Keep existing DOM, just update state if needed
-    this.dom = dom;
-    this.input = dom.querySelector(".cm-ai-input");
+    // Only the loading state changes for a given session,
+    // so keep the existing DOM (and its focus) and toggle it.
+    if (!dom.classList.contains("cm-ai-input-container")) return false;
+    toggleLoading(dom, this.loading);
     return true;
   }
+}
 
-  private cleanup() {
-    this.abortController?.abort();
-    this.abortController = null;
-    this.dom?.remove();
-    this.input?.remove();
-    this.dom = null;
-    this.input = null;
-  }
-
-  destroy() {
-    this.cleanup();
-  }
+/**
+ * Determines whether we show the loading UI or the input UI,
+ * by hiding either the help info or the loading container.
+ */
+function toggleLoading(inputContainer: HTMLElement, loading: boolean) {
+  inputContainer.querySelector(".cm-ai-loading-container")?.classList.toggle("hidden", !loading);
+  inputContainer.querySelector(".cm-ai-help-info")?.classList.toggle("hidden", loading);
 }
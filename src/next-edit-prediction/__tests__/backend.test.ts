@@ -1,7 +1,8 @@
 import { EditorSelection, EditorState } from "@codemirror/state";
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import { cleanPrediction, PredictionBackend } from "../backend.js";
-import type { DiffSuggestion } from "../types.js";
+import { extractDiffOperations } from "../diff.js";
+import { CURSOR_MARKER, type DiffSuggestion } from "../types.js";
 
 describe("cleanPrediction", () => {
   it("should remove EDIT_START and EDIT_END markers", () => {
@@ -70,6 +71,18 @@ code here
     expect(result.intent).toBe("");
   });
 
+  it("should keep the indentation of the code", () => {
+    const input = `<|EDIT_START|>
+    return a + b;
+  }
+<|EDIT_END|>`;
+    const expected = `    return a + b;
+  }`;
+
+    const result = cleanPrediction(input);
+    expect(result.cleaned).toBe(expected);
+  });
+
   it("should handle text without EDIT markers", () => {
     const input = `console.log("hello world");`;
     const expected = `console.log("hello world");`;
@@ -451,3 +464,366 @@ describe("PredictionBackend.cached", () => {
     expect(result2).toEqual(mockResponse);
   });
 });
+
+describe("PredictionBackend.rateLimited", () => {
+  const suggestion: DiffSuggestion = { oldText: "a", newText: "ab", from: 1, to: 1 };
+  const state = EditorState.create({ doc: "a" });
+
+  function deferred<T>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>((r) => {
+      resolve = r;
+    });
+    return { promise, resolve };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should queue calls over maxConcurrent", async () => {
+    const first = deferred<DiffSuggestion>();
+    const delegate = vi.fn().mockReturnValueOnce(first.promise).mockResolvedValue(suggestion);
+    const onThrottle = vi.fn();
+    const limited = PredictionBackend.rateLimited(delegate, { maxConcurrent: 1, onThrottle });
+
+    const result1 = limited(state);
+    const result2 = limited(state);
+    await Promise.resolve();
+
+    expect(delegate).toHaveBeenCalledTimes(1);
+    expect(onThrottle).toHaveBeenCalledWith({ reason: "concurrency", dropped: false });
+
+    first.resolve(suggestion);
+    await expect(result1).resolves.toEqual(suggestion);
+    await expect(result2).resolves.toEqual(suggestion);
+    expect(delegate).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only keep the latest waiting call with maxQueued: 1", async () => {
+    const first = deferred<DiffSuggestion>();
+    const delegate = vi.fn().mockReturnValueOnce(first.promise).mockResolvedValue(suggestion);
+    const onThrottle = vi.fn();
+    const limited = PredictionBackend.rateLimited(delegate, {
+      maxConcurrent: 1,
+      maxQueued: 1,
+      onThrottle,
+    });
+
+    const result1 = limited(state);
+    const result2 = limited(state);
+    const result3 = limited(state);
+
+    await expect(result2).rejects.toMatchObject({ name: "AbortError" });
+    expect(onThrottle).toHaveBeenLastCalledWith({ reason: "concurrency", dropped: true });
+
+    first.resolve(suggestion);
+    await result1;
+    await result3;
+    expect(delegate).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only keep the latest waiting call without a signal by default", async () => {
+    const first = deferred<DiffSuggestion>();
+    const delegate = vi.fn().mockReturnValueOnce(first.promise).mockResolvedValue(suggestion);
+    const limited = PredictionBackend.rateLimited(delegate, { maxConcurrent: 1 });
+
+    const result1 = limited(state);
+    const result2 = limited(state);
+    const result3 = limited(state);
+
+    await expect(result2).rejects.toMatchObject({ name: "AbortError" });
+    first.resolve(suggestion);
+    await result1;
+    await result3;
+    expect(delegate).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop calls over the limits with maxQueued: 0", async () => {
+    const delegate = vi.fn().mockResolvedValue(suggestion);
+    const onThrottle = vi.fn();
+    const limited = PredictionBackend.rateLimited(delegate, {
+      perMinute: 1,
+      maxQueued: 0,
+      onThrottle,
+    });
+
+    await limited(state);
+    await expect(limited(state)).rejects.toMatchObject({ name: "AbortError" });
+
+    expect(delegate).toHaveBeenCalledTimes(1);
+    expect(onThrottle).toHaveBeenCalledWith({ reason: "rate", dropped: true });
+  });
+
+  it("should wait for the minute to pass when over perMinute", async () => {
+    vi.useFakeTimers();
+    const delegate = vi.fn().mockResolvedValue(suggestion);
+    const limited = PredictionBackend.rateLimited(delegate, { perMinute: 2 });
+
+    await limited(state);
+    await vi.advanceTimersByTimeAsync(30_000);
+    await limited(state);
+    const result3 = limited(state);
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(delegate).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(delegate).toHaveBeenCalledTimes(3);
+    await expect(result3).resolves.toEqual(suggestion);
+  });
+
+  it("should drop queued inline completion requests when their signal is aborted", async () => {
+    const first = deferred<string>();
+    const fetchFn = vi.fn().mockReturnValueOnce(first.promise).mockResolvedValue("second");
+    const limited = PredictionBackend.rateLimited(fetchFn, { maxConcurrent: 1 });
+    const controller = new AbortController();
+
+    const result1 = limited(state, new AbortController().signal);
+    const result2 = limited(state, controller.signal);
+    controller.abort();
+
+    await expect(result2).rejects.toMatchObject({ name: "AbortError" });
+    first.resolve("first");
+    await expect(result1).resolves.toBe("first");
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should hold the slot of a streamed result until it is read", async () => {
+    async function* stream() {
+      yield "a";
+      yield "b";
+    }
+    const fetchFn = vi.fn().mockImplementationOnce(stream).mockResolvedValue("second");
+    const limited = PredictionBackend.rateLimited(fetchFn, { maxConcurrent: 1 });
+
+    const first = (await limited(state, new AbortController().signal)) as AsyncIterable<string>;
+    const second = limited(state, new AbortController().signal);
+    await Promise.resolve();
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    const chunks: string[] = [];
+    for await (const chunk of first) chunks.push(chunk);
+    expect(chunks).toEqual(["a", "b"]);
+    await expect(second).resolves.toBe("second");
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("PredictionBackend.openai", () => {
+  const state = EditorState.create({
+    doc: "const x = ",
+    selection: EditorSelection.cursor(10),
+  });
+
+  function mockFetch(body: unknown, init: ResponseInit = { status: 200 }) {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(body), init));
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should post to /chat/completions and parse the message content", async () => {
+    const fetchMock = mockFetch({
+      choices: [
+        { message: { role: "assistant", content: "<|EDIT_START|>const x = 1;<|EDIT_END|>" } },
+      ],
+    });
+    const onPrediction = vi.fn();
+    const predictor = PredictionBackend.openai({
+      model: "gpt-4o-mini",
+      baseUrl: "http://localhost:1234/v1",
+      headers: { Authorization: "Bearer key" },
+      onPrediction,
+    });
+
+    const result = await predictor(state);
+
+    expect(result).toEqual({
+      oldText: "const x = <|user_cursor_is_here|>",
+      newText: "const x = 1;",
+      from: 10,
+      to: 10,
+      offset: 0,
+    });
+    expect(onPrediction).toHaveBeenCalledWith(
+      "<|EDIT_START|>const x = 1;<|EDIT_END|>",
+      expect.stringContaining("const x = <|user_cursor_is_here|>"),
+    );
+
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe("http://localhost:1234/v1/chat/completions");
+    expect(init.headers).toMatchObject({
+      "Content-Type": "application/json",
+      Authorization: "Bearer key",
+    });
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe("gpt-4o-mini");
+    expect(body.messages).toEqual([{ role: "user", content: expect.any(String) }]);
+  });
+
+  it("should send the system prompt and sampling options", async () => {
+    const fetchMock = mockFetch({ choices: [{ message: { content: "const x = 1;" } }] });
+    const predictor = PredictionBackend.openai({
+      model: "gpt-4o-mini",
+      baseUrl: "http://localhost:1234/v1",
+      systemPrompt: "You complete code.",
+      maxTokens: 256,
+      temperature: 0.2,
+      stop: ["<|EDIT_END|>"],
+      templater: ({ prefix }) => `complete: ${prefix}`,
+    });
+
+    await predictor(state);
+
+    const body = JSON.parse(fetchMock.mock.calls[0]?.[1].body);
+    expect(body).toEqual({
+      model: "gpt-4o-mini",
+      messages: [
+        { role: "system", content: "You complete code." },
+        { role: "user", content: "complete: const x = " },
+      ],
+      max_tokens: 256,
+      temperature: 0.2,
+      stop: ["<|EDIT_END|>"],
+    });
+  });
+
+  it("should return an empty suggestion when the response is invalid", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {
+      // ignore
+    });
+    mockFetch({ output: { content: [{ text: "const x = 1;" }] } });
+    const predictor = PredictionBackend.openai({ model: "m", baseUrl: "http://localhost" });
+
+    const result = await predictor(state);
+
+    expect(result.newText).toBe(result.oldText);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("should return an empty suggestion on HTTP errors", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {
+      // ignore
+    });
+    const fetchMock = mockFetch({ error: "rate limited" }, { status: 429 });
+    const predictor = PredictionBackend.openai({ model: "m", baseUrl: "http://localhost" });
+
+    const result = await predictor(state);
+
+    // No retries by default
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      oldText: "const x = ",
+      newText: "const x = ",
+      from: 10,
+      to: 10,
+      offset: 0,
+    });
+    expect(console.error).toHaveBeenCalledWith("Error fetching prediction:", expect.any(Error));
+  });
+});
+
+describe("PredictionBackend with a window", () => {
+  const doc = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join("\n");
+  // At the end of line 5
+  const state = EditorState.create({
+    doc,
+    selection: EditorSelection.cursor(doc.indexOf("line 6") - 1),
+  });
+
+  function predictorFor(answer: string, templater = vi.fn(() => "prompt")) {
+    const transport = {
+      buildRequest: (prompt: string) => prompt,
+      send: vi.fn(async () => answer),
+      parseResponse: (response: string) => response,
+    };
+    return {
+      templater,
+      predictor: PredictionBackend.withTransport(transport, {
+        templater,
+        window: { editableLines: 1, contextLines: 2 },
+      }),
+    };
+  }
+
+  it("should only send the editable region and its context", async () => {
+    const { predictor, templater } = predictorFor("");
+
+    await predictor(state);
+
+    expect(templater).toHaveBeenCalledWith({
+      prefix: "line 4\nline 5",
+      suffix: "\nline 6",
+      codeBefore: "line 2\nline 3\n",
+      codeAfter: "\nline 7\nline 8",
+      context: {},
+    });
+  });
+
+  it("should diff the answer against the editable region only", async () => {
+    const { predictor } = predictorFor(
+      "<|EDIT_START|>line 4\nline 5;<|user_cursor_is_here|>\nline 6<|EDIT_END|>",
+    );
+
+    const result = await predictor(state);
+
+    expect(result).toMatchObject({
+      oldText: "line 4\nline 5<|user_cursor_is_here|>\nline 6",
+      newText: "line 4\nline 5;<|user_cursor_is_here|>\nline 6",
+      offset: doc.indexOf("line 4"),
+    });
+  });
+
+  it("should not change an indented region that the model echoes back", async () => {
+    const indented = EditorState.create({
+      doc: "function add(a, b) {\n    const sum = a + b;\n    return sum;\n}",
+      selection: EditorSelection.cursor("function add(a, b) {\n    const sum".length),
+    });
+    const transport = {
+      buildRequest: (prompt: string) => prompt,
+      // Echo the editable region of the default template
+      send: vi.fn(async (prompt: string) =>
+        prompt.slice(prompt.indexOf("<|EDIT_START|>"), prompt.lastIndexOf("<|EDIT_END|>") + 12),
+      ),
+      parseResponse: (response: string) => response,
+    };
+    const predictor = PredictionBackend.withTransport(transport, {
+      window: { editableLines: 0, contextLines: 1 },
+    });
+
+    const result = await predictor(indented);
+
+    expect(result.oldText).toBe("    const sum<|user_cursor_is_here|> = a + b;");
+    expect(result.newText).toBe(result.oldText);
+    expect(extractDiffOperations(result, CURSOR_MARKER).operations).toEqual([]);
+  });
+
+  it("should render the code around the edit markers in its own section", async () => {
+    const transport = {
+      buildRequest: (prompt: string) => prompt,
+      send: vi.fn(async (prompt: string) => prompt),
+      parseResponse: (response: string) => response,
+    };
+    const onPrediction = vi.fn();
+    const predictor = PredictionBackend.withTransport(transport, {
+      onPrediction,
+      window: { editableLines: 0, contextLines: 1 },
+    });
+
+    await predictor(state);
+
+    const prompt = onPrediction.mock.calls[0]?.[1];
+    expect(prompt).toContain(
+      "### Code before the marked region\nline 4\n\n### Code after the marked region\nline 6\n",
+    );
+    expect(prompt).toContain(
+      "<|INTENT|>\n<|EDIT_START|>\nline 5<|user_cursor_is_here|>\n<|EDIT_END|>\n",
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { EditorState } from "@codemirror/state";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { PredictionBackend } from "../backend.js";
+import { collectContext } from "../context.js";
+
+const state = EditorState.create({ doc: "import os\n\nos." });
+
+describe("collectContext", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should collect the results by name, leaving out empty ones", async () => {
+    const context = await collectContext(
+      [
+        { name: "filename", provide: () => "main.py" },
+        { name: "language", provide: async () => "python" },
+        { name: "diagnostics", provide: () => null },
+      ],
+      state,
+      new AbortController().signal,
+    );
+
+    expect(context).toEqual({ filename: "main.py", language: "python" });
+  });
+
+  it("should cut results to the token budget", async () => {
+    const context = await collectContext(
+      [{ name: "cells", provide: () => "x".repeat(100), maxTokens: 10 }],
+      state,
+      new AbortController().signal,
+    );
+
+    expect(context.cells).toHaveLength(40);
+  });
+
+  it("should leave out providers that fail or time out, and abort them", async () => {
+    vi.useFakeTimers();
+    let providerSignal: AbortSignal | undefined;
+    const result = collectContext(
+      [
+        {
+          name: "slow",
+          timeout: 50,
+          provide: (_state, signal) => {
+            providerSignal = signal;
+            return new Promise<string>(() => {
+              // never resolves
+            });
+          },
+        },
+        {
+          name: "broken",
+          provide: () => {
+            throw new Error("LSP is down");
+          },
+        },
+        { name: "fast", provide: () => "ok" },
+      ],
+      state,
+      new AbortController().signal,
+    );
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(await result).toEqual({ fast: "ok" });
+    expect(providerSignal?.aborted).toBe(true);
+  });
+
+  it("should abort the providers with the request", async () => {
+    const controller = new AbortController();
+    let providerSignal: AbortSignal | undefined;
+    const result = collectContext(
+      [
+        {
+          name: "cells",
+          provide: (_state, signal) => {
+            providerSignal = signal;
+            return "cells";
+          },
+        },
+      ],
+      state,
+      controller.signal,
+    );
+    controller.abort();
+
+    await result;
+    expect(providerSignal?.aborted).toBe(true);
+  });
+});
+
+describe("PredictionBackend with contextProviders", () => {
+  it("should render the context in the default template", async () => {
+    const onPrediction = vi.fn();
+    const predictor = PredictionBackend.withTransport(
+      {
+        buildRequest: (prompt: string) => prompt,
+        send: async (prompt: string) => prompt,
+        parseResponse: (response: string) => response,
+      },
+      {
+        onPrediction,
+        contextProviders: [
+          { name: "filename", provide: () => "main.py" },
+          { name: "imports", provide: () => "import os" },
+        ],
+      },
+    );
+
+    await predictor(state);
+
+    expect(onPrediction.mock.calls[0]?.[1]).toContain(
+      "Here is some context about the code:\n\n### filename\nmain.py\n\n### imports\nimport os\n",
+    );
+  });
+});
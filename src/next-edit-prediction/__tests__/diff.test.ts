@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { type DiffOperationOf, type DiffResult, extractDiffOperation } from "../diff.js";
+import {
+  type DiffOperationOf,
+  type DiffResult,
+  extractDiffOperation,
+  extractDiffOperations,
+} from "../diff.js";
 
 const cursorMarker = "▲";
 
@@ -416,3 +421,63 @@ def fibonacci(n):
     `);
   });
 });
+
+describe("extractDiffOperations", () => {
+  const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n");
+
+  it("should split edits far apart into separate hunks", () => {
+    const before = `const a = 1;${cursorMarker}\n${lines(30)}\nconst b = 2;`;
+    const after = `const a = 10;${cursorMarker}\n${lines(30)}\nconst b = 20;`;
+
+    const { operations } = extractDiffOperations({ oldText: before, newText: after }, cursorMarker);
+
+    const oldText = before.replace(cursorMarker, "");
+    expect(operations).toEqual([
+      { type: "modify", position: oldText.indexOf("1;"), insertText: "10", removeCount: 1 },
+      { type: "modify", position: oldText.lastIndexOf("2;"), insertText: "20", removeCount: 1 },
+    ]);
+  });
+
+  it("should keep changes on the same line in one hunk", () => {
+    const before = `foo(a, b)${cursorMarker}`;
+    const after = `bar(a, c)${cursorMarker}`;
+
+    const { operations } = extractDiffOperations({ oldText: before, newText: after }, cursorMarker);
+
+    expect(operations).toEqual([
+      { type: "modify", position: 0, insertText: "bar(a, c", removeCount: "foo(a, b".length },
+    ]);
+  });
+
+  it("should produce additions, removals and modifications", () => {
+    const before = `keep\nremove me\nkeep${cursorMarker}\nold value\nkeep`;
+    const after = `keep\nkeep${cursorMarker}\nnew value\nkeep\nadded line`;
+
+    const { operations } = extractDiffOperations({ oldText: before, newText: after }, cursorMarker);
+
+    expect(operations.map((operation) => operation.type)).toEqual(["remove", "modify", "add"]);
+  });
+
+  it("should return a cursor operation when only the cursor moves", () => {
+    const { operations, cursorPosition } = extractDiffOperations(
+      { oldText: `ab${cursorMarker}c`, newText: `a${cursorMarker}bc` },
+      cursorMarker,
+    );
+
+    expect(operations).toEqual([{ type: "cursor", position: 1 }]);
+    expect(cursorPosition).toBe(1);
+  });
+
+  it("should return no operations without changes or cursor marker", () => {
+    expect(
+      extractDiffOperations(
+        { oldText: `a${cursorMarker}`, newText: `a${cursorMarker}` },
+        cursorMarker,
+      ).operations,
+    ).toEqual([]);
+    expect(extractDiffOperations({ oldText: "a", newText: "b" }, cursorMarker).operations).toEqual(
+      [],
+    );
+  });
+});
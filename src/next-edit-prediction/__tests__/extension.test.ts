@@ -0,0 +1,192 @@
+import { EditorSelection, EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  acceptNepHunk,
+  acceptNepSuggestion,
+  jumpToNepHunk,
+  nextEditPrediction,
+  rejectNepSuggestion,
+} from "../extension.js";
+import { CURSOR_MARKER, type DiffSuggestion } from "../types.js";
+
+const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join("\n");
+const doc = `const a = 1;\n${lines}\nconst b = 2;`;
+
+/** Predicts two edits, 30 lines apart */
+function predict(state: EditorState): Promise<DiffSuggestion> {
+  const text = state.doc.toString();
+  const head = state.selection.main.head;
+  const oldText = text.slice(0, head) + CURSOR_MARKER + text.slice(head);
+  return Promise.resolve({
+    oldText,
+    newText: oldText
+      .replace("const a = 1;", "const a = 1; // a")
+      .replace("const b = 2;", "const b = 2; // b"),
+    from: head,
+    to: head,
+  });
+}
+
+describe("nextEditPrediction with several hunks", () => {
+  let view: EditorView;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    view = new EditorView({
+      state: EditorState.create({
+        doc,
+        extensions: [nextEditPrediction({ fetchFn: predict, delay: 0 })],
+      }),
+      parent: document.createElement("div"),
+    });
+
+    // Type something to trigger a prediction
+    view.dispatch({
+      changes: { from: 0, insert: "\n" },
+      selection: EditorSelection.cursor(0),
+    });
+    await vi.runAllTimersAsync();
+  });
+
+  afterEach(() => {
+    view.destroy();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("should render each hunk separately", () => {
+    expect(view.dom.querySelectorAll(".cm-ghost-add")).toHaveLength(2);
+  });
+
+  it("should jump to each hunk, then accept it", () => {
+    const hunkA = "\nconst a = 1;".length;
+    const hunkB = `\nconst a = 1; // a\n${lines}\nconst b = 2;`.length;
+
+    // The first hunk is on another line: jump there first
+    expect(acceptNepSuggestion(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe(`\n${doc}`);
+    expect(view.state.selection.main.head).toBe(hunkA);
+
+    expect(acceptNepSuggestion(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe(`\nconst a = 1; // a\n${lines}\nconst b = 2;`);
+    expect(view.state.selection.main.head).toBe("\nconst a = 1; // a".length);
+    expect(view.dom.querySelectorAll(".cm-ghost-add")).toHaveLength(1);
+
+    expect(acceptNepSuggestion(view)).toBe(true);
+    expect(view.state.selection.main.head).toBe(hunkB);
+
+    expect(acceptNepSuggestion(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe(`\nconst a = 1; // a\n${lines}\nconst b = 2; // b`);
+    expect(view.dom.querySelectorAll(".cm-ghost-add")).toHaveLength(0);
+
+    // Nothing left, so Tab falls through
+    expect(acceptNepSuggestion(view)).toBe(false);
+  });
+
+  it("should accept a hunk on its own", () => {
+    expect(acceptNepHunk(view, 1)).toBe(true);
+    expect(view.state.doc.toString()).toBe(`\nconst a = 1;\n${lines}\nconst b = 2; // b`);
+
+    // The remaining hunk still applies where it was
+    expect(jumpToNepHunk(view, 0)).toBe(true);
+    expect(acceptNepSuggestion(view)).toBe(true);
+    expect(view.state.doc.toString()).toBe(`\nconst a = 1; // a\n${lines}\nconst b = 2; // b`);
+  });
+
+  it("should reject the remaining hunks", () => {
+    acceptNepSuggestion(view);
+    acceptNepSuggestion(view);
+
+    expect(rejectNepSuggestion(view)).toBe(true);
+    expect(acceptNepSuggestion(view)).toBe(false);
+    expect(view.state.doc.toString()).toBe(`\nconst a = 1; // a\n${lines}\nconst b = 2;`);
+  });
+
+  it("should drop the prediction when the cursor moves elsewhere", () => {
+    view.dispatch({ selection: EditorSelection.cursor(5) });
+
+    expect(acceptNepSuggestion(view)).toBe(false);
+  });
+
+  describe("next edit banner", () => {
+    function layout(visible: { top: number; bottom: number }) {
+      vi.spyOn(view.scrollDOM, "getBoundingClientRect").mockReturnValue({
+        ...visible,
+        height: visible.bottom - visible.top,
+      } as DOMRect);
+      // 20px per line
+      vi.spyOn(view, "lineBlockAt").mockImplementation((pos) => {
+        const line = view.state.doc.lineAt(pos).number;
+        return { top: (line - 1) * 20, bottom: line * 20 } as ReturnType<EditorView["lineBlockAt"]>;
+      });
+    }
+
+    async function banner() {
+      view.scrollDOM.dispatchEvent(new Event("scroll"));
+      await vi.runAllTimersAsync();
+      return view.dom.querySelector<HTMLElement>(".cm-next-edit-banner");
+    }
+
+    it("should point to a hunk below the visible area", async () => {
+      // The visible area ends before the first hunk, on line 2
+      layout({ top: -100, bottom: 10 });
+
+      expect((await banner())?.textContent).toBe("Next edit: line 2 ↓");
+    });
+
+    it("should point to a hunk above the visible area, and jump to it", async () => {
+      layout({ top: 200, bottom: 300 });
+
+      const element = await banner();
+      expect(element?.textContent).toBe("Next edit: line 2 ↑");
+
+      element?.click();
+      expect(view.state.selection.main.head).toBe("\nconst a = 1;".length);
+      expect(acceptNepSuggestion(view)).toBe(true);
+      expect(view.state.doc.toString()).toBe(`\nconst a = 1; // a\n${lines}\nconst b = 2;`);
+    });
+
+    it("should not show a banner when the hunk is visible", async () => {
+      layout({ top: 0, bottom: 1000 });
+
+      expect(await banner()).toBeNull();
+    });
+  });
+});
+
+describe("nextEditPrediction with a windowed suggestion", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should apply the hunks at their document positions", async () => {
+    vi.useFakeTimers();
+    // Only the last line was sent, and rewritten
+    const fetchFn = vi.fn(async (state: EditorState) => {
+      const offset = state.doc.line(state.doc.lines).from;
+      const oldText = `${state.doc.sliceString(offset)}${CURSOR_MARKER}`;
+      return {
+        oldText,
+        newText: oldText.replace("const b = 2;", "const b = 22;"),
+        from: state.doc.length,
+        to: state.doc.length,
+        offset,
+      };
+    });
+    const view = new EditorView({
+      state: EditorState.create({ doc, extensions: [nextEditPrediction({ fetchFn, delay: 0 })] }),
+      parent: document.createElement("div"),
+    });
+
+    view.dispatch({
+      changes: { from: 0, insert: "\n" },
+      selection: EditorSelection.cursor(doc.length + 1),
+    });
+    await vi.runAllTimersAsync();
+    expect(acceptNepSuggestion(view)).toBe(true);
+
+    expect(view.state.doc.toString()).toBe(`\n${doc.replace("const b = 2;", "const b = 22;")}`);
+    view.destroy();
+  });
+});
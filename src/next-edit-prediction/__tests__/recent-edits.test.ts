@@ -0,0 +1,81 @@
+import { EditorState, type TransactionSpec } from "@codemirror/state";
+import { describe, expect, it, vi } from "vitest";
+import { PredictionBackend } from "../backend.js";
+import { formatRecentEdits, getRecentEdits, trackRecentEdits } from "../recent-edits.js";
+
+const doc = "a = 1\nb = 2\nc = 3";
+
+function apply(state: EditorState, ...specs: TransactionSpec[]) {
+  for (const spec of specs) {
+    state = state.update(spec).state;
+  }
+  return state;
+}
+
+describe("trackRecentEdits", () => {
+  const create = (maxEdits?: number) =>
+    EditorState.create({ doc, extensions: trackRecentEdits({ maxEdits }) });
+
+  it("should merge consecutive keystrokes on the same lines", () => {
+    const state = apply(
+      create(),
+      { changes: { from: 5, insert: "0" } },
+      { changes: { from: 6, insert: "0" } },
+      { changes: { from: 7, insert: "\nd = 4" } },
+    );
+
+    expect(getRecentEdits(state)).toHaveLength(1);
+    expect(formatRecentEdits(getRecentEdits(state))).toBe(
+      ["@@ -1,1 +1,2 @@", "-a = 1", "+a = 100", "+d = 4"].join("\n"),
+    );
+  });
+
+  it("should keep separate edits on other lines, and drop the oldest ones", () => {
+    const state = apply(
+      create(2),
+      { changes: { from: 0, to: 1, insert: "x" } },
+      { changes: { from: 6, to: 7, insert: "y" } },
+      { changes: { from: 12, to: 13, insert: "z" } },
+    );
+
+    expect(formatRecentEdits(getRecentEdits(state))).toBe(
+      ["@@ -2,1 +2,1 @@", "-b = 2", "+y = 2", "@@ -3,1 +3,1 @@", "-c = 3", "+z = 3"].join("\n"),
+    );
+  });
+
+  it("should forget edits that were undone by hand", () => {
+    const state = apply(
+      create(),
+      { changes: { from: 5, insert: "0" } },
+      { changes: { from: 5, to: 6 } },
+    );
+
+    expect(getRecentEdits(state)).toEqual([]);
+  });
+
+  it("should be empty when not installed", () => {
+    const state = apply(EditorState.create({ doc }), { changes: { from: 0, insert: "x" } });
+
+    expect(getRecentEdits(state)).toEqual([]);
+  });
+
+  it("should be sent to backends as context.recentEdits", async () => {
+    const templater = vi.fn(() => "prompt");
+    const predictor = PredictionBackend.withTransport(
+      {
+        buildRequest: (prompt: string) => prompt,
+        send: async () => "",
+        parseResponse: (response: string) => response,
+      },
+      { templater },
+    );
+
+    await predictor(apply(create(), { changes: { from: 4, to: 5, insert: "2" } }));
+
+    expect(templater).toHaveBeenCalledWith(
+      expect.objectContaining({
+        context: { recentEdits: "@@ -1,1 +1,1 @@\n-a = 1\n+a = 2" },
+      }),
+    );
+  });
+});
@@ -0,0 +1,236 @@
+import { EditorSelection, EditorState } from "@codemirror/state";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { PredictionBackend } from "../backend.js";
+import {
+  classifyPredictionError,
+  httpTransport,
+  PredictionHttpError,
+  type PredictionTransport,
+  sendPrediction,
+} from "../transport.js";
+
+const state = EditorState.create({
+  doc: "const x = ",
+  selection: EditorSelection.cursor(10),
+});
+
+describe("classifyPredictionError", () => {
+  it("should classify aborts, transient and other errors", () => {
+    expect(classifyPredictionError(new DOMException("cancelled", "AbortError"))).toBe("abort");
+    expect(classifyPredictionError(new PredictionHttpError(429))).toBe("retry");
+    expect(classifyPredictionError(new PredictionHttpError(503))).toBe("retry");
+    expect(classifyPredictionError(new PredictionHttpError(401))).toBe("error");
+    expect(classifyPredictionError(new Error("boom"))).toBe("error");
+  });
+});
+
+describe("sendPrediction", () => {
+  const signal = new AbortController().signal;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should build, send and parse the request", async () => {
+    const transport: PredictionTransport<{ text: string }, { reply: string }> = {
+      buildRequest: (prompt) => ({ text: prompt }),
+      send: vi.fn().mockResolvedValue({ reply: "done" }),
+      parseResponse: (response) => response.reply,
+    };
+
+    await expect(sendPrediction(transport, "prompt", signal, 0)).resolves.toBe("done");
+    expect(transport.send).toHaveBeenCalledWith({ text: "prompt" }, signal);
+  });
+
+  it("should retry errors classified as retry, after a delay", async () => {
+    vi.useFakeTimers();
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new PredictionHttpError(503))
+      .mockResolvedValue("done");
+    const transport: PredictionTransport = {
+      buildRequest: (prompt) => prompt,
+      send,
+      parseResponse: (response) => String(response),
+    };
+
+    const result = sendPrediction(transport, "prompt", signal, 1);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("done");
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wait as long as the server asks before retrying", async () => {
+    vi.useFakeTimers();
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new PredictionHttpError(429, 3000))
+      .mockResolvedValue("done");
+    const transport: PredictionTransport = {
+      buildRequest: (prompt) => prompt,
+      send,
+      parseResponse: (response) => String(response),
+    };
+
+    const result = sendPrediction(transport, "prompt", signal, 1);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("done");
+  });
+
+  it("should stop waiting to retry when aborted", async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const send = vi.fn().mockRejectedValue(new PredictionHttpError(503));
+    const transport: PredictionTransport = {
+      buildRequest: (prompt) => prompt,
+      send,
+      parseResponse: (response) => String(response),
+    };
+
+    const result = sendPrediction(transport, "prompt", controller.signal, 1);
+    const rejected = expect(result).rejects.toMatchObject({ name: "AbortError" });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    await rejected;
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up after the retries, and not retry other errors", async () => {
+    const send = vi.fn().mockRejectedValue(new Error("offline"));
+    const transport: PredictionTransport = {
+      buildRequest: (prompt) => prompt,
+      send,
+      parseResponse: (response) => String(response),
+      classifyError: () => "retry",
+    };
+
+    vi.useFakeTimers();
+    const result = sendPrediction(transport, "prompt", signal, 2);
+    const rejected = expect(result).rejects.toThrow("offline");
+    await vi.runAllTimersAsync();
+    await rejected;
+    expect(send).toHaveBeenCalledTimes(3);
+
+    send.mockClear();
+    await expect(
+      sendPrediction({ ...transport, classifyError: () => "error" }, "prompt", signal, 2),
+    ).rejects.toThrow("offline");
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("httpTransport", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should post JSON and parse the response", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ out: "x = 1" })));
+    vi.stubGlobal("fetch", fetchMock);
+    const transport = httpTransport({
+      url: "http://localhost/predict",
+      headers: { Authorization: "token" },
+      buildRequest: (prompt) => ({ prompt }),
+      parseResponse: (data) => (data as { out: string }).out,
+    });
+
+    const response = await transport.send(
+      transport.buildRequest("p"),
+      new AbortController().signal,
+    );
+
+    expect(await transport.parseResponse(response)).toBe("x = 1");
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost/predict", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "token" },
+      body: JSON.stringify({ prompt: "p" }),
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("should throw a PredictionHttpError on error statuses", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 404 })));
+    const transport = httpTransport({
+      url: "http://localhost/predict",
+      buildRequest: (prompt) => prompt,
+      parseResponse: String,
+    });
+
+    await expect(transport.send("p", new AbortController().signal)).rejects.toEqual(
+      new PredictionHttpError(404),
+    );
+  });
+
+  it("should read the Retry-After header", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(new Response("{}", { status: 429, headers: { "Retry-After": "2" } })),
+    );
+    const transport = httpTransport({
+      url: "http://localhost/predict",
+      buildRequest: (prompt) => prompt,
+      parseResponse: String,
+    });
+
+    await expect(transport.send("p", new AbortController().signal)).rejects.toMatchObject({
+      status: 429,
+      retryAfter: 2000,
+    });
+  });
+});
+
+describe("PredictionBackend.withTransport", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should reuse the prompting over a custom transport", async () => {
+    // e.g. a postMessage bridge to a worker
+    const send = vi.fn(async (request: { id: number; prompt: string }) => ({
+      id: request.id,
+      result: "<|EDIT_START|>const x = 1;<|EDIT_END|>",
+    }));
+    const predictor = PredictionBackend.withTransport({
+      buildRequest: (prompt) => ({ id: 1, prompt }),
+      send,
+      parseResponse: (response) => response.result,
+    });
+
+    const result = await predictor(state);
+
+    expect(send.mock.calls[0]?.[0].prompt).toContain("const x = <|user_cursor_is_here|>");
+    expect(result).toEqual({
+      oldText: "const x = <|user_cursor_is_here|>",
+      newText: "const x = 1;",
+      from: 10,
+      to: 10,
+      offset: 0,
+    });
+  });
+
+  it("should not report errors classified as abort", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {
+      // ignore
+    });
+    const predictor = PredictionBackend.withTransport({
+      buildRequest: (prompt) => prompt,
+      send: vi.fn().mockRejectedValue(new Error("comm closed")),
+      parseResponse: String,
+      classifyError: () => "abort",
+    });
+
+    const result = await predictor(state);
+
+    expect(result.newText).toBe(result.oldText);
+    expect(error).not.toHaveBeenCalled();
+  });
+});
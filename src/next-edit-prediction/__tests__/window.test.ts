@@ -0,0 +1,50 @@
+import { EditorSelection, EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import { predictionWindow } from "../window.js";
+
+const doc = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join("\n");
+
+function stateAt(anchor: number, head = anchor) {
+  return EditorState.create({ doc, selection: EditorSelection.range(anchor, head) });
+}
+
+describe("predictionWindow", () => {
+  it("should cover the whole document without options", () => {
+    expect(predictionWindow(stateAt(5))).toEqual({
+      from: 0,
+      to: doc.length,
+      codeBefore: "",
+      codeAfter: "",
+    });
+  });
+
+  it("should take whole lines around the cursor, and context around them", () => {
+    const window = predictionWindow(stateAt(doc.indexOf("line 5") + 2), {
+      editableLines: 1,
+      contextLines: 2,
+    });
+
+    expect(doc.slice(window.from, window.to)).toBe("line 4\nline 5\nline 6");
+    expect(window.codeBefore).toBe("line 2\nline 3\n");
+    expect(window.codeAfter).toBe("\nline 7\nline 8");
+  });
+
+  it("should stop at the edges of the document", () => {
+    const window = predictionWindow(stateAt(1), { editableLines: 1, contextLines: 100 });
+
+    expect(doc.slice(window.from, window.to)).toBe("line 1\nline 2");
+    expect(window.codeBefore).toBe("");
+    expect(window.codeAfter).toBe(doc.slice(window.to));
+  });
+
+  it("should cover all lines of the selection", () => {
+    const window = predictionWindow(stateAt(doc.indexOf("line 3"), doc.indexOf("line 5")), {
+      editableLines: 0,
+      contextLines: 0,
+    });
+
+    expect(doc.slice(window.from, window.to)).toBe("line 3\nline 4\nline 5");
+    expect(window.codeBefore).toBe("");
+    expect(window.codeAfter).toBe("");
+  });
+});
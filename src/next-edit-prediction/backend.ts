@@ -1,7 +1,17 @@
 import type { EditorState } from "@codemirror/state";
+import { releaseWhenRead } from "../inline-edit/stream.js";
 import { LRUCache } from "../utils/lru.js";
+import { type ContextProvider, collectContext } from "./context.js";
 import { debug } from "./debug.js";
+import { formatRecentEdits, getRecentEdits } from "./recent-edits.js";
+import {
+  classifyPredictionError,
+  httpTransport,
+  type PredictionTransport,
+  sendPrediction,
+} from "./transport.js";
 import { CURSOR_MARKER, type DiffSuggestion, type NextEditPredictor } from "./types.js";
+import { type PredictionWindowOptions, predictionWindow } from "./window.js";
 
 /**
  * Callback for when a prediction is made
@@ -9,30 +19,46 @@ import { CURSOR_MARKER, type DiffSuggestion, type NextEditPredictor } from "./ty
 export type PredictionCallback = (prediction: string, prompt: string) => void;
 
 export type Templater = (opts: {
+  /** The editable code before the cursor */
   prefix: string;
+  /** The editable code after the cursor */
   suffix: string;
+  /** Read-only code before the editable region, when using a `window` */
+  codeBefore: string;
+  /** Read-only code after the editable region, when using a `window` */
+  codeAfter: string;
+  /**
+   * Extra context for the model. `recentEdits` holds the last edits
+   * as unified diffs, when `nextEditPrediction` tracks them; the other
+   * entries come from the `contextProviders`, by name.
+   */
   context: Record<string, string>;
 }) => string;
 
+type OxenRequest = {
+  model: string;
+  messages: { role: string; content: string }[];
+};
+
+/** The parts of an oxen.ai response we read, none of them guaranteed */
+type OxenResponse = {
+  output?: { content?: { text?: unknown }[] };
+};
+
+/** The parts of a Chat Completions response we read, none of them guaranteed */
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: unknown } }[];
+};
+
 /**
- * Internal function to make HTTP request to an openai-compatible API
+ * Transport for an oxen.ai API
  */
-async function fetchPrediction(opts: {
-  message: string;
-  model: string;
-  url: string;
-  headers?: Record<string, string>;
-  signal?: AbortSignal;
-}): Promise<{ prediction: string; prompt: string }> {
-  const { message, model, url, headers, signal } = opts;
-  const completionsUrl = `${url}/completions`;
-  const response = await fetch(completionsUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      ...headers,
-    },
-    body: JSON.stringify({
+function oxenTransport(opts: PredictionBackendOptions) {
+  const { model, baseUrl, headers } = opts;
+  return httpTransport<OxenRequest>({
+    url: `${baseUrl}/completions`,
+    headers,
+    buildRequest: (message) => ({
       model,
       messages: [
         {
@@ -41,25 +67,42 @@ async function fetchPrediction(opts: {
         },
       ],
     }),
-    signal,
+    parseResponse: (data) => {
+      const text = (data as OxenResponse | null)?.output?.content?.[0]?.text;
+      if (typeof text !== "string") {
+        throw new Error("Invalid response from server");
+      }
+      return text;
+    },
   });
+}
 
-  if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
-  }
-
-  try {
-    const data = await response.json();
-    if (!data.output || !data.output.content || !data.output.content[0]) {
-      throw new Error("Invalid response from server");
-    }
-    return {
-      prediction: data.output.content[0].text,
-      prompt: message,
-    };
-  } catch (error) {
-    throw new Error(`Error parsing prediction response: ${error}`);
-  }
+/**
+ * Transport for an OpenAI Chat Completions API
+ */
+function openaiTransport(opts: OpenAIBackendOptions) {
+  const { model, baseUrl, headers, systemPrompt, maxTokens, temperature, stop } = opts;
+  return httpTransport({
+    url: `${baseUrl}/chat/completions`,
+    headers,
+    buildRequest: (message) => ({
+      model,
+      messages: [
+        ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+        { role: "user", content: message },
+      ],
+      max_tokens: maxTokens,
+      temperature,
+      stop,
+    }),
+    parseResponse: (data) => {
+      const content = (data as ChatCompletionResponse | null)?.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new Error("Invalid response from server");
+      }
+      return content;
+    },
+  });
 }
 
 export function cleanPrediction(prediction: string): {
@@ -70,31 +113,83 @@ export function cleanPrediction(prediction: string): {
   const intentMatch = prediction.match(/<\|INTENT\|>([\s\S]*?)<\|EDIT_START\|>/);
   const intent = intentMatch?.[1]?.trim() ?? "";
 
-  // Remove all special tokens and clean up the prediction
+  // Remove all special tokens. Only the whitespace outside of the markers
+  // is dropped: the code may start with indentation, which must be kept.
   const cleaned = prediction
-    .replace(/<\|INTENT\|>[\s\S]*?<\|EDIT_START\|>/g, "")
-    .replace(/<\|EDIT_START\|>\n?|<\|EDIT_END\|>\n?/g, "")
-    .trim();
+    .replace(/^\s+(?=<\|(?:INTENT|EDIT_START)\|>)/, "")
+    .replace(/(?<=<\|EDIT_END\|>)\s+$/, "")
+    .replace(/<\|INTENT\|>[\s\S]*?<\|EDIT_START\|>\n?/g, "")
+    .replace(/<\|EDIT_START\|>\n?/g, "")
+    // The template puts a newline before the last marker
+    .replace(/\n?<\|EDIT_END\|>$/, "")
+    .replace(/<\|EDIT_END\|>\n?/g, "");
 
   return { cleaned, intent };
 }
 
-function defaultTemplate(opts: {
-  prefix: string;
-  suffix: string;
-  context: Record<string, string>;
-}) {
-  return `You are a code completion assistant and your task is to analyze user edits and then rewrite the marked region, taking into account the cursor location. The user intent will sometimes be explicitly given below, in which case you must follow this intent. If it is not present, you must infer the intent before implementing the change.
+/**
+ * Renders the results of the context providers, one `### name` section each
+ */
+function renderContext(context: Record<string, string>): string {
+  const sections = Object.entries(context)
+    .filter(([name]) => name !== "recentEdits")
+    .map(([name, value]) => `### ${name}\n${value}`);
+  return sections.length > 0
+    ? `\nHere is some context about the code:\n\n${sections.join("\n\n")}\n`
+    : "";
+}
+
+/**
+ * Renders the read-only code around the editable region, when the prompt has a window
+ */
+function renderSurroundingCode(codeBefore: string, codeAfter: string): string {
+  const sections = [
+    codeBefore && `### Code before the marked region\n${codeBefore.replace(/\n$/, "")}`,
+    codeAfter && `### Code after the marked region\n${codeAfter.replace(/^\n/, "")}`,
+  ].filter(Boolean);
+  return sections.length > 0
+    ? `\nThe marked region is part of a larger file. Here is the code around it, which must not be rewritten:\n\n${sections.join("\n\n")}\n`
+    : "";
+}
 
+const defaultTemplate: Templater = (opts) => {
+  const { recentEdits } = opts.context;
+  const history = recentEdits
+    ? `\nThese are the user's most recent edits, oldest first:\n\n${recentEdits}\n`
+    : "";
+  return `You are a code completion assistant and your task is to analyze user edits and then rewrite the marked region, taking into account the cursor location. The user intent will sometimes be explicitly given below, in which case you must follow this intent. If it is not present, you must infer the intent before implementing the change.
+${renderContext(opts.context)}${renderSurroundingCode(opts.codeBefore, opts.codeAfter)}${history}
 <|INTENT|>
 <|EDIT_START|>
 ${opts.prefix}<|user_cursor_is_here|>${opts.suffix}
 <|EDIT_END|>
 `;
+};
+
+/**
+ * The tracked edits, if any, as `context.recentEdits`
+ */
+function recentEditsContext(state: EditorState): Record<string, string> {
+  const edits = getRecentEdits(state);
+  return edits.length > 0 ? { recentEdits: formatRecentEdits(edits) } : {};
 }
 
-const oxen = (opts: PredictionBackendOptions): NextEditPredictor => {
-  const { model, baseUrl, headers, onPrediction, templater = defaultTemplate } = opts;
+/**
+ * Turns a transport into a predictor: builds the prompt around the cursor,
+ * cancels the previous call, and cleans up the model's prediction.
+ */
+function createPredictor<TRequest, TResponse>(
+  opts: PromptOptions,
+  transport: PredictionTransport<TRequest, TResponse>,
+): NextEditPredictor {
+  const {
+    onPrediction,
+    templater = defaultTemplate,
+    retries = 0,
+    window: windowOptions,
+    contextProviders = [],
+  } = opts;
+  const classify = transport.classifyError ?? classifyPredictionError;
 
   let currentController: AbortController | null = null;
 
@@ -106,27 +201,35 @@ const oxen = (opts: PredictionBackendOptions): NextEditPredictor => {
 
     // Create new controller for this prediction
     currentController = new AbortController();
+    const { signal } = currentController;
 
     const { from, to } = state.selection.main;
-    const text = state.doc.toString();
-    const prefix = text.slice(0, to);
-    const suffix = text.slice(from);
+    // Only the editable region is sent for rewriting, and diffed against the answer
+    const region = predictionWindow(state, windowOptions);
+    const text = state.doc.sliceString(region.from, region.to);
+    const prefix = text.slice(0, to - region.from);
+    const suffix = text.slice(from - region.from);
 
     // Insert a <|user_cursor_is_here|> marker at the cursor position
-    const oldText = text.slice(0, from) + CURSOR_MARKER + text.slice(from);
+    const oldText =
+      text.slice(0, from - region.from) + CURSOR_MARKER + text.slice(from - region.from);
 
     try {
-      const { prediction, prompt } = await fetchPrediction({
-        message: templater({
-          prefix,
-          suffix,
-          context: {},
-        }),
-        model,
-        url: baseUrl,
-        headers,
-        signal: currentController.signal,
+      const context = {
+        ...recentEditsContext(state),
+        ...(await collectContext(contextProviders, state, signal)),
+      };
+      // A newer prediction may have started while collecting the context
+      signal.throwIfAborted();
+
+      const prompt = templater({
+        prefix,
+        suffix,
+        codeBefore: region.codeBefore,
+        codeAfter: region.codeAfter,
+        context,
       });
+      const prediction = await sendPrediction(transport, prompt, signal, retries);
 
       // Call the prediction callback if provided
       if (onPrediction) {
@@ -146,11 +249,10 @@ const oxen = (opts: PredictionBackendOptions): NextEditPredictor => {
         newText: cleaned,
         from: from,
         to: to,
+        offset: region.from,
       };
     } catch (error) {
-      const shouldLog = error instanceof Error && error.name !== "AbortError";
-
-      if (shouldLog) {
+      if (classify(error) !== "abort") {
         // biome-ignore lint/suspicious/noConsole: error
         console.error("Error fetching prediction:", error);
       }
@@ -161,17 +263,230 @@ const oxen = (opts: PredictionBackendOptions): NextEditPredictor => {
         newText: text,
         from: from,
         to: to,
+        offset: region.from,
       };
     }
   };
+}
+
+const oxen = (opts: PredictionBackendOptions): NextEditPredictor => {
+  return createPredictor(opts, oxenTransport(opts));
+};
+
+const openai = (opts: OpenAIBackendOptions): NextEditPredictor => {
+  return createPredictor(opts, openaiTransport(opts));
+};
+
+const withTransport = <TRequest, TResponse>(
+  transport: PredictionTransport<TRequest, TResponse>,
+  opts: PromptOptions = {},
+): NextEditPredictor => {
+  return createPredictor(opts, transport);
+};
+
+/**
+ * Why a request was throttled by `PredictionBackend.rateLimited`
+ */
+export interface ThrottleEvent {
+  /** `concurrency` when too many calls were in flight, `rate` when over `perMinute` */
+  reason: "concurrency" | "rate";
+  /** Whether the request was dropped, rather than queued */
+  dropped: boolean;
+}
+
+export interface RateLimitOptions {
+  /**
+   * Maximum number of calls in flight. A streamed result (from an
+   * inline completion `fetchFn`) counts until it is fully read.
+   * @default Infinity
+   */
+  maxConcurrent?: number;
+  /**
+   * Maximum number of calls started in any one minute.
+   * @default Infinity
+   */
+  perMinute?: number;
+  /**
+   * Maximum number of requests waiting for a slot. When the queue is
+   * full, the oldest waiting request is dropped. Use 0 to drop every
+   * request that can't start right away, or 1 to only keep the latest.
+   * Calls without an `AbortSignal` (such as a `NextEditPredictor`'s) can't
+   * be cancelled once superseded, so by default only the latest of them waits.
+   * @default 1 without an AbortSignal, Infinity with one
+   */
+  maxQueued?: number;
+  /**
+   * Called whenever a request is queued or dropped.
+   */
+  onThrottle?: (event: ThrottleEvent) => void;
+}
+
+function throttledError() {
+  return new DOMException("The request was throttled", "AbortError");
+}
+
+const MINUTE = 60_000;
+
+const rateLimited = <F extends (...args: never[]) => unknown>(
+  delegate: F,
+  opts: RateLimitOptions,
+): ((...args: Parameters<F>) => Promise<Awaited<ReturnType<F>>>) => {
+  const { maxConcurrent = Infinity, perMinute = Infinity, onThrottle } = opts;
+
+  interface Waiting {
+    start: () => void;
+    drop: () => void;
+  }
+
+  const queue: Waiting[] = [];
+  // Start times of the calls in the last minute
+  const started: number[] = [];
+  let running = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const throttleReason = (): ThrottleEvent["reason"] | null => {
+    if (running >= maxConcurrent) {
+      return "concurrency";
+    }
+    const now = Date.now();
+    while (started.length > 0 && (started[0] ?? 0) <= now - MINUTE) {
+      started.shift();
+    }
+    return started.length >= perMinute ? "rate" : null;
+  };
+
+  const next = () => {
+    while (queue.length > 0) {
+      const reason = throttleReason();
+      if (reason === "rate") {
+        // Try again once the oldest call leaves the window
+        if (timer === undefined) {
+          const wait = (started[0] ?? 0) + MINUTE - Date.now();
+          timer = setTimeout(() => {
+            timer = undefined;
+            next();
+          }, wait);
+        }
+        return;
+      }
+      if (reason) return;
+      queue.shift()?.start();
+    }
+  };
+
+  return (...args) => {
+    // Inline completions pass an AbortSignal, which should also drop queued requests
+    const signal = (args as readonly unknown[]).find(
+      (arg): arg is AbortSignal => arg instanceof AbortSignal,
+    );
+    if (signal?.aborted) {
+      return Promise.reject(throttledError());
+    }
+    const maxQueued = opts.maxQueued ?? (signal ? Infinity : 1);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = queue.indexOf(waiting);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      const waiting: Waiting = {
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          running++;
+          started.push(Date.now());
+          const release = () => {
+            running--;
+            next();
+          };
+          Promise.resolve()
+            .then(
+              () =>
+                delegate(...args) as Awaited<ReturnType<F>> | PromiseLike<Awaited<ReturnType<F>>>,
+            )
+            .then(
+              // A stream holds its slot until it is read
+              (result) => resolve(releaseWhenRead(result, release, signal)),
+              (error) => {
+                release();
+                reject(error);
+              },
+            );
+        },
+        drop: () => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(throttledError());
+        },
+      };
+
+      const reason = throttleReason();
+      if (!reason) {
+        waiting.start();
+        return;
+      }
+
+      const dropped = maxQueued <= 0;
+      onThrottle?.({ reason, dropped });
+      if (dropped) {
+        waiting.drop();
+        return;
+      }
+
+      signal?.addEventListener("abort", onAbort);
+      queue.push(waiting);
+      if (queue.length > maxQueued) {
+        const oldest = queue.shift();
+        onThrottle?.({ reason, dropped: true });
+        oldest?.drop();
+      }
+      next();
+    });
+  };
 };
 
-interface PredictionBackendOptions {
+/**
+ * How backends build the prompt and handle the prediction,
+ * independently of the transport.
+ */
+export interface PromptOptions {
+  onPrediction?: PredictionCallback;
+  templater?: Templater;
+  /**
+   * How many times to retry requests the transport classifies as `retry`,
+   * waiting as long as the server asks (`Retry-After`), or 0.5s, 1s, 2s, ...
+   * @default 0
+   */
+  retries?: number;
+  /**
+   * Run before each request to add to the templater's `context`,
+   * e.g. the file name or diagnostics. The default template renders
+   * each result in a `### name` section.
+   */
+  contextProviders?: readonly ContextProvider[];
+  /**
+   * Only send the lines around the cursor: an editable region that the
+   * model rewrites, and read-only context around it. By default, the
+   * whole document is sent and rewritten.
+   */
+  window?: PredictionWindowOptions;
+}
+
+interface PredictionBackendOptions extends PromptOptions {
   model: string;
   baseUrl: string;
   headers?: Record<string, string>;
-  onPrediction?: PredictionCallback;
-  templater?: Templater;
+}
+
+export interface OpenAIBackendOptions extends PredictionBackendOptions {
+  /** Sent as a `system` message before the prompt */
+  systemPrompt?: string;
+  /** Sent as `max_tokens` */
+  maxTokens?: number;
+  temperature?: number;
+  /** Sequences where the model stops generating */
+  stop?: string | string[];
 }
 
 export const PredictionBackend = {
@@ -179,6 +494,16 @@ export const PredictionBackend = {
    * A backend that works well with http://oxen.ai.
    */
   oxen: oxen,
+  /**
+   * A backend for OpenAI-compatible Chat Completions APIs
+   * (`${baseUrl}/chat/completions`), e.g. OpenAI, vLLM, Ollama or LM Studio.
+   */
+  openai: openai,
+  /**
+   * Runs the prompting of the built-in backends (cursor marker, template,
+   * cleanup) over a custom transport, e.g. a WebSocket or a Jupyter comm.
+   */
+  withTransport: withTransport,
   /**
    * Wrap a delegate predictor with a cache.
    * The cache is keyed by cursor position and text.
@@ -203,4 +528,16 @@ export const PredictionBackend = {
       return suggestion;
     };
   },
+  /**
+   * Wrap a delegate with limits on concurrent calls and calls per minute.
+   * Works with both `NextEditPredictor` and `InlineFetchFn`.
+   *
+   * Requests over the limits wait in a queue, or are dropped (rejected
+   * with an `AbortError`) when the queue is full.
+   *
+   * @param delegate - The function to wrap.
+   * @param opts - The limits, and a callback for throttled requests.
+   * @returns A new function that respects the limits.
+   */
+  rateLimited: rateLimited,
 };
@@ -0,0 +1,91 @@
+import type { EditorState } from "@codemirror/state";
+import { debug } from "./debug.js";
+
+/**
+ * Adds extra context to the prompt, e.g. the file name, the language,
+ * imports, other notebook cells or diagnostics.
+ */
+export interface ContextProvider {
+  /** Key of the result in the templater's `context`, e.g. `"diagnostics"` */
+  name: string;
+  /**
+   * Called before each request. Returning nothing (or an empty string)
+   * leaves the context out.
+   */
+  provide: (
+    state: EditorState,
+    signal: AbortSignal,
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  /**
+   * Time to wait for the result, in ms. Slower providers are aborted and left out.
+   * @default 200
+   */
+  timeout?: number;
+  /**
+   * Maximum size of the result, in tokens (estimated at 4 characters
+   * per token). Longer results are cut.
+   * @default 500
+   */
+  maxTokens?: number;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Runs one provider within its timeout, or returns null.
+ */
+async function runProvider(
+  provider: ContextProvider,
+  state: EditorState,
+  signal: AbortSignal,
+): Promise<string | null> {
+  const { timeout = 200, maxTokens = 500 } = provider;
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal.addEventListener("abort", abort);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const timedOut = new Promise<null>((resolve) => {
+      timer = setTimeout(() => {
+        debug("Context provider timed out", provider.name);
+        controller.abort();
+        resolve(null);
+      }, timeout);
+    });
+    const result = await Promise.race([
+      Promise.resolve(provider.provide(state, controller.signal)),
+      timedOut,
+    ]);
+    return result ? result.slice(0, maxTokens * CHARS_PER_TOKEN) : null;
+  } catch (error) {
+    debug("Context provider failed", provider.name, error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Runs the providers side by side, and collects their results by name.
+ * Providers that fail or time out are left out.
+ */
+export async function collectContext(
+  providers: readonly ContextProvider[],
+  state: EditorState,
+  signal: AbortSignal,
+): Promise<Record<string, string>> {
+  const results = await Promise.all(
+    providers.map((provider) => runProvider(provider, state, signal)),
+  );
+
+  const context: Record<string, string> = {};
+  providers.forEach((provider, index) => {
+    const result = results[index];
+    if (result) {
+      context[provider.name] = result;
+    }
+  });
+  return context;
+}
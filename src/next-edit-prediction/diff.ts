@@ -33,6 +33,12 @@ export interface DiffResult {
   cursorPosition: number | null;
 }
 
+export interface MultiDiffResult {
+  /** One operation per hunk, in document order */
+  operations: DiffOperation[];
+  cursorPosition: number | null;
+}
+
 /**
  * Finds the bounds that encompass all diff changes
  */
@@ -74,31 +80,10 @@ export function findLargestDiffBound(diffs: Change[]): {
 }
 
 /**
- * Extracts the largest diff operation at the cursor position
+ * Diffs the texts by words, or by characters when that is more precise
  */
-export function extractDiffOperation(
-  suggestion: Pick<DiffText, "oldText" | "newText">,
-  cursorMarker: string,
-): DiffResult {
-  const { oldText, newText } = suggestion;
-
-  if (!newText.includes(cursorMarker)) {
-    debug("No cursor marker found, skipping ghost text");
-    return {
-      operation: { type: "none" },
-      cursorPosition: null,
-    };
-  }
-
-  // Find cursor positions
-  const oldCursorPosition = oldText.indexOf(cursorMarker);
-  const newCursorPosition = newText.indexOf(cursorMarker);
-
-  // Remove cursor marker for diffing
-  const oldTextClean = oldText.replace(cursorMarker, "");
-  const newTextClean = newText.replace(cursorMarker, "");
-
-  // Compute diffs - use diffWords for multi-edit scenarios, diffChars for single word changes
+function computeDiffs(oldTextClean: string, newTextClean: string): Change[] {
+  // Use diffWords for multi-edit scenarios, diffChars for single word changes
   let diffs = diffWords(oldTextClean, newTextClean);
 
   // Check if we should fall back to diffChars for more granular control
@@ -129,6 +114,36 @@ export function extractDiffOperation(
     }
   }
 
+  return diffs;
+}
+
+/**
+ * Extracts the largest diff operation at the cursor position
+ */
+export function extractDiffOperation(
+  suggestion: Pick<DiffText, "oldText" | "newText">,
+  cursorMarker: string,
+): DiffResult {
+  const { oldText, newText } = suggestion;
+
+  if (!newText.includes(cursorMarker)) {
+    debug("No cursor marker found, skipping ghost text");
+    return {
+      operation: { type: "none" },
+      cursorPosition: null,
+    };
+  }
+
+  // Find cursor positions
+  const oldCursorPosition = oldText.indexOf(cursorMarker);
+  const newCursorPosition = newText.indexOf(cursorMarker);
+
+  // Remove cursor marker for diffing
+  const oldTextClean = oldText.replace(cursorMarker, "");
+  const newTextClean = newText.replace(cursorMarker, "");
+
+  const diffs = computeDiffs(oldTextClean, newTextClean);
+
   // Find the diff bounds (encompasses all changes)
   const bound = findLargestDiffBound(diffs);
 
@@ -253,3 +268,87 @@ export function extractDiffOperation(
 
   return { operation, cursorPosition: newCursorPosition };
 }
+
+/**
+ * Turns the changes of one hunk into an operation at `position`
+ */
+function hunkOperation(position: number, oldText: string, newText: string): DiffOperation {
+  if (!oldText) {
+    return { type: "add", position, text: newText };
+  }
+  if (!newText) {
+    return { type: "remove", position, count: oldText.length };
+  }
+  return { type: "modify", position, insertText: newText, removeCount: oldText.length };
+}
+
+/**
+ * Extracts one operation per hunk, so edits far apart can be shown and
+ * accepted separately. Changes on the same line form a single hunk.
+ */
+export function extractDiffOperations(
+  suggestion: Pick<DiffText, "oldText" | "newText">,
+  cursorMarker: string,
+): MultiDiffResult {
+  const { oldText, newText } = suggestion;
+
+  if (!newText.includes(cursorMarker)) {
+    debug("No cursor marker found, skipping ghost text");
+    return { operations: [], cursorPosition: null };
+  }
+
+  const oldCursorPosition = oldText.indexOf(cursorMarker);
+  const newCursorPosition = newText.indexOf(cursorMarker);
+  const oldTextClean = oldText.replace(cursorMarker, "");
+  const newTextClean = newText.replace(cursorMarker, "");
+
+  const operations: DiffOperation[] = [];
+  let hunk: { position: number; oldText: string; newText: string } | null = null;
+  // Unchanged text after the current hunk, which joins it if more changes follow on the same line
+  let gap = "";
+  let oldPos = 0;
+
+  const closeHunk = () => {
+    if (hunk) {
+      operations.push(hunkOperation(hunk.position, hunk.oldText, hunk.newText));
+    }
+    hunk = null;
+    gap = "";
+  };
+
+  for (const diff of computeDiffs(oldTextClean, newTextClean)) {
+    if (!diff.added && !diff.removed) {
+      if (hunk && !(gap + diff.value).includes("\n")) {
+        gap += diff.value;
+      } else {
+        closeHunk();
+      }
+      oldPos += diff.value.length;
+      continue;
+    }
+
+    if (!hunk) {
+      hunk = { position: oldPos, oldText: "", newText: "" };
+    }
+    hunk.oldText += gap;
+    hunk.newText += gap;
+    gap = "";
+
+    if (diff.added) {
+      hunk.newText += diff.value;
+    } else {
+      hunk.oldText += diff.value;
+      oldPos += diff.value.length;
+    }
+  }
+  closeHunk();
+
+  if (operations.length === 0 && oldCursorPosition !== newCursorPosition) {
+    return {
+      operations: [{ type: "cursor", position: newCursorPosition }],
+      cursorPosition: newCursorPosition,
+    };
+  }
+
+  return { operations, cursorPosition: operations.length > 0 ? newCursorPosition : null };
+}
@@ -1,13 +1,22 @@
-import { Prec, type Range, StateEffect, StateField, type Text } from "@codemirror/state";
+import {
+  EditorSelection,
+  type EditorState,
+  Prec,
+  type Range,
+  StateEffect,
+  StateField,
+  type Text,
+} from "@codemirror/state";
 import {
   type Command,
   Decoration,
   type DecorationSet,
-  type EditorView,
+  EditorView,
   keymap,
   ViewPlugin,
   type ViewUpdate,
 } from "@codemirror/view";
+import type { CompletionProvider } from "../completion-provider.js";
 import { debouncePromise } from "../utils.js";
 import {
   AcceptIndicatorWidget,
@@ -16,27 +25,63 @@ import {
   createRemovalDecoration,
   GhostTextWidget,
 } from "./decorations.js";
-import { type DiffOperation, extractDiffOperation } from "./diff.js";
+import { type DiffOperation, extractDiffOperations } from "./diff.js";
+import { type RecentEditsOptions, trackRecentEdits } from "./recent-edits.js";
 import { suggestionConfigFacet } from "./state.js";
 import { CURSOR_MARKER, type DiffSuggestion, type NextEditPredictor } from "./types.js";
-import { insertDiffText } from "./utils.js";
+import {
+  diffOperationRange,
+  insertDiffText,
+  mapDiffOperation,
+  offsetDiffOperation,
+} from "./utils.js";
+
+interface NextEditPredictionValue {
+  suggestion: null | DiffSuggestion;
+  /** The hunks of the suggestion that are still pending, in document order */
+  operations: readonly DiffOperation[];
+}
+
+const noPrediction: NextEditPredictionValue = { suggestion: null, operations: [] };
 
 /**
  * Current state of the autosuggestion
  */
-const NextEditPredictionState = StateField.define<{
-  suggestion: null | DiffSuggestion;
-}>({
+const NextEditPredictionState = StateField.define<NextEditPredictionValue>({
   create() {
-    return { suggestion: null };
+    return noPrediction;
   },
   update(previousValue, tr) {
     const inlineSuggestion = tr.effects.find((e) => e.is(NextEditPredictionEffect));
+    const acceptedHunk = tr.effects.find((e) => e.is(AcceptNepHunkEffect));
     if (tr.state.doc) {
       if (inlineSuggestion && tr.state.doc === inlineSuggestion.value.doc) {
         // There is a new selection that has been set via an effect,
         // and it applies to the current document.
-        return { suggestion: inlineSuggestion.value.suggestion };
+        const { suggestion } = inlineSuggestion.value;
+        if (!suggestion) {
+          return noPrediction;
+        }
+        const { operations } = extractDiffOperations(suggestion, CURSOR_MARKER);
+        return {
+          suggestion,
+          operations: operations.map((operation) =>
+            offsetDiffOperation(operation, suggestion.offset ?? 0),
+          ),
+        };
+      }
+      if (acceptedHunk && previousValue.suggestion) {
+        // Keep the other hunks, moved by the accepted one
+        const operations = previousValue.operations
+          .filter((_, index) => index !== acceptedHunk.value)
+          .map((operation) => mapDiffOperation(operation, tr.changes))
+          // Drop removals whose text was already removed
+          .filter((operation) => operation.type !== "remove" || operation.count > 0);
+        return operations.length > 0 ? { ...previousValue, operations } : noPrediction;
+      }
+      if (tr.effects.some((e) => e.is(JumpToNepHunkEffect))) {
+        // Moving to a hunk keeps the prediction
+        return previousValue;
       }
       if (!tr.docChanged && !tr.selection) {
         // This transaction is irrelevant to the document state
@@ -45,7 +90,7 @@ const NextEditPredictionState = StateField.define<{
         return previousValue;
       }
     }
-    return { suggestion: null };
+    return noPrediction;
   },
 });
 
@@ -54,14 +99,47 @@ const NextEditPredictionEffect = StateEffect.define<{
   doc: Text;
 }>();
 
+/** Marks the transaction that applies the hunk at this index */
+const AcceptNepHunkEffect = StateEffect.define<number>();
+
+/** Marks the transaction that moves the selection to a hunk */
+const JumpToNepHunkEffect = StateEffect.define<null>();
+
 // DECORATIONS
 
 /**
  * Creates decorations for a suggestion
  */
-export function createSuggestionDecorations(operation: DiffOperation): DecorationSet {
+export function createSuggestionDecorations(
+  operation: DiffOperation,
+  onAccept: Command = acceptNepSuggestion,
+  showIndicator = true,
+): DecorationSet {
+  return Decoration.set(suggestionDecorationRanges(operation, onAccept, showIndicator), true);
+}
+
+/**
+ * Creates decorations for every pending hunk of a suggestion. Clicking a
+ * hunk accepts it; the accept indicator marks the hunk `Tab` accepts next.
+ */
+export function createHunkDecorations(
+  operations: readonly DiffOperation[],
+  head: number,
+): DecorationSet {
+  const next = nextHunkIndex(operations, head);
+  const ranges = operations.flatMap((operation, index) =>
+    suggestionDecorationRanges(operation, (view) => acceptNepHunk(view, index), index === next),
+  );
+  return Decoration.set(ranges, true);
+}
+
+function suggestionDecorationRanges(
+  operation: DiffOperation,
+  onAccept: Command,
+  showIndicator: boolean,
+): Range<Decoration>[] {
   if (operation.type === "none") {
-    return Decoration.none;
+    return [];
   }
 
   // Position ghost text at the current cursor position
@@ -71,22 +149,24 @@ export function createSuggestionDecorations(operation: DiffOperation): Decoratio
     const startPos = operation.position;
     decorations.push(
       Decoration.widget({
-        widget: new GhostTextWidget(operation, acceptNepSuggestion),
-        side: 1, // 1 means after the position
-      }).range(startPos),
-    );
-    decorations.push(
-      Decoration.widget({
-        widget: new AcceptIndicatorWidget(acceptNepSuggestion, rejectNepSuggestion),
+        widget: new GhostTextWidget(operation, onAccept),
         side: 1, // 1 means after the position
       }).range(startPos),
     );
+    if (showIndicator) {
+      decorations.push(
+        Decoration.widget({
+          widget: new AcceptIndicatorWidget(onAccept, rejectNepSuggestion),
+          side: 1, // 1 means after the position
+        }).range(startPos),
+      );
+    }
   }
   if (operation.type === "remove") {
-    decorations.push(...createRemovalDecoration(operation, acceptNepSuggestion));
+    decorations.push(...createRemovalDecoration(operation, onAccept));
   }
   if (operation.type === "modify") {
-    decorations.push(...createModifyDecoration(operation, acceptNepSuggestion));
+    decorations.push(...createModifyDecoration(operation, onAccept));
   }
   if (operation.type === "cursor") {
     // For cursor operations, show where the cursor will jump to
@@ -98,10 +178,7 @@ export function createSuggestionDecorations(operation: DiffOperation): Decoratio
     );
   }
 
-  // Sort by from position
-  decorations.sort((a, b) => a.from - b.from);
-
-  return Decoration.set(decorations);
+  return decorations;
 }
 
 // PLUGINS
@@ -114,6 +191,8 @@ export function createSuggestionDecorations(operation: DiffOperation): Decoratio
  */
 export const fetchSuggestion = ViewPlugin.fromClass(
   class Plugin {
+    abortController: AbortController | null = null;
+
     async update(update: ViewUpdate) {
       const doc = update.state.doc;
       // Only fetch if the document has changed
@@ -149,13 +228,33 @@ export const fetchSuggestion = ViewPlugin.fromClass(
         return;
       }
 
-      const result = await config.fetchFn(update.state);
+      // Cancel the previous request, in case it's still queued
+      this.abortController?.abort();
+      const abortController = new AbortController();
+      this.abortController = abortController;
+
+      let result: DiffSuggestion;
+      try {
+        result = await config.fetchFn(update.state, update.view, abortController.signal);
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === "AbortError")) {
+          console.error("Error fetching prediction:", error);
+        }
+        return;
+      }
+      if (abortController.signal.aborted) {
+        return;
+      }
 
       // The result is now a DiffSuggestion object
       update.view.dispatch({
         effects: NextEditPredictionEffect.of({ suggestion: result, doc: doc }),
       });
     }
+
+    destroy() {
+      this.abortController?.abort();
+    }
   },
 );
 
@@ -167,14 +266,13 @@ const renderNextEditPredictionPlugin = ViewPlugin.fromClass(
       this.decorations = Decoration.none;
     }
     update(update: ViewUpdate) {
-      const suggestion = update.state.field(NextEditPredictionState)?.suggestion;
+      const { suggestion, operations } = update.state.field(NextEditPredictionState);
       if (!suggestion) {
         this.decorations = Decoration.none;
         return;
       }
 
-      const { operation } = extractDiffOperation(suggestion, CURSOR_MARKER);
-      this.decorations = createSuggestionDecorations(operation);
+      this.decorations = createHunkDecorations(operations, update.state.selection.main.head);
     }
   },
   {
@@ -184,21 +282,195 @@ const renderNextEditPredictionPlugin = ViewPlugin.fromClass(
 
 // COMMANDS
 
-export const acceptNepSuggestion: Command = (view: EditorView) => {
-  const suggestion = view.state.field(NextEditPredictionState)?.suggestion;
+/**
+ * The hunk `Tab` goes to next: the first one that ends at or after
+ * the cursor, wrapping around to the first one.
+ */
+function nextHunkIndex(operations: readonly DiffOperation[], head: number): number {
+  const index = operations.findIndex((operation) => {
+    const range = diffOperationRange(operation);
+    return range !== null && range.to >= head;
+  });
+  return index === -1 ? 0 : index;
+}
 
-  // If there is no suggestion, do nothing and let the default keymap handle it
-  if (!suggestion) {
+/**
+ * Whether the hunk touches the cursor's line, so `Tab` can
+ * apply it without jumping there first.
+ */
+function isHunkAtCursor(state: EditorState, operation: DiffOperation): boolean {
+  const range = diffOperationRange(operation);
+  if (!range) return false;
+  const line = state.doc.lineAt(state.selection.main.head);
+  return range.from <= line.to && range.to >= line.from;
+}
+
+/**
+ * Selects the location of a hunk and scrolls to it, keeping the prediction.
+ */
+export function jumpToNepHunk(view: EditorView, index: number): boolean {
+  const { suggestion, operations } = view.state.field(NextEditPredictionState);
+  const operation = operations[index];
+  const range = operation && diffOperationRange(operation);
+  if (!suggestion || !range) {
     return false;
   }
 
-  const { operation, cursorPosition } = extractDiffOperation(suggestion, CURSOR_MARKER);
   view.dispatch({
-    ...insertDiffText({ state: view.state, operation, cursorPosition }),
+    selection: EditorSelection.range(range.from, range.to),
+    effects: [JumpToNepHunkEffect.of(null), EditorView.scrollIntoView(range.to, { y: "center" })],
+    userEvent: "select",
   });
   return true;
+}
+
+/**
+ * Accepts one hunk of the suggestion, keeping the others pending.
+ */
+export function acceptNepHunk(view: EditorView, index: number): boolean {
+  const { suggestion, operations } = view.state.field(NextEditPredictionState);
+  const operation = operations[index];
+  if (!suggestion || !operation) {
+    return false;
+  }
+
+  view.dispatch({
+    ...insertDiffText({ state: view.state, operation, cursorPosition: null }),
+    effects: AcceptNepHunkEffect.of(index),
+    scrollIntoView: true,
+  });
+  return true;
+}
+
+/**
+ * Accepts the next hunk of the suggestion. When that hunk is away from
+ * the cursor, the first call jumps to it and the second one applies it.
+ * With several hunks, repeated calls go through them one after another.
+ */
+export const acceptNepSuggestion: Command = (view: EditorView) => {
+  const { suggestion, operations } = view.state.field(NextEditPredictionState);
+
+  // If there is no suggestion, do nothing and let the default keymap handle it
+  if (!suggestion) {
+    return false;
+  }
+
+  if (operations.length === 0) {
+    view.dispatch(
+      insertDiffText({ state: view.state, operation: { type: "none" }, cursorPosition: null }),
+    );
+    return true;
+  }
+
+  const index = nextHunkIndex(operations, view.state.selection.main.head);
+  const operation = operations[index];
+  // Cursor operations are jumps already
+  if (operation && operation.type !== "cursor" && !isHunkAtCursor(view.state, operation)) {
+    return jumpToNepHunk(view, index);
+  }
+  return acceptNepHunk(view, index);
 };
 
+/**
+ * Shows a banner pointing to the next hunk when it is scrolled out of view,
+ * e.g. "Next edit: line 142 ↓". Clicking it jumps there.
+ */
+const nextEditBannerPlugin = ViewPlugin.fromClass(
+  class Plugin {
+    dom: HTMLElement | null = null;
+
+    constructor(view: EditorView) {
+      this.measure(view);
+    }
+
+    update(update: ViewUpdate) {
+      if (
+        update.docChanged ||
+        update.selectionSet ||
+        update.viewportChanged ||
+        update.geometryChanged ||
+        update.startState.field(NextEditPredictionState) !==
+          update.state.field(NextEditPredictionState)
+      ) {
+        this.measure(update.view);
+      }
+    }
+
+    measure(view: EditorView) {
+      view.requestMeasure({
+        key: this,
+        read: (view) => {
+          const { suggestion, operations } = view.state.field(NextEditPredictionState);
+          if (!suggestion) return null;
+          const index = nextHunkIndex(operations, view.state.selection.main.head);
+          const operation = operations[index];
+          const range = operation && diffOperationRange(operation);
+          if (!range) return null;
+
+          const rect = view.scrollDOM.getBoundingClientRect();
+          // Not laid out (e.g. hidden), so there is nothing to point from
+          if (rect.height === 0) return null;
+          const top = view.documentTop + view.lineBlockAt(range.from).top;
+          const bottom = view.documentTop + view.lineBlockAt(range.to).bottom;
+          const direction = bottom <= rect.top ? "up" : top >= rect.bottom ? "down" : null;
+          if (!direction) return null;
+          return { index, direction, line: view.state.doc.lineAt(range.from).number } as const;
+        },
+        write: (banner, view) => this.render(view, banner),
+      });
+    }
+
+    render(
+      view: EditorView,
+      banner: { index: number; direction: "up" | "down"; line: number } | null,
+    ) {
+      if (!banner) {
+        this.dom?.remove();
+        this.dom = null;
+        return;
+      }
+
+      if (!this.dom) {
+        this.dom = document.createElement("div");
+        this.dom.className = "cm-next-edit-banner";
+        this.dom.setAttribute("role", "button");
+        view.dom.appendChild(this.dom);
+      }
+      this.dom.style.cssText = `
+        position: absolute;
+        ${banner.direction === "up" ? "top" : "bottom"}: 4px;
+        right: 12px;
+        z-index: 10;
+        cursor: pointer;
+        color: #007acc;
+        font-size: 0.8em;
+        padding: 2px 8px;
+        background: rgba(0, 122, 204, 0.1);
+        border: 1px solid rgba(0, 122, 204, 0.3);
+        border-radius: 3px;
+      `;
+      this.dom.textContent = `Next edit: line ${banner.line} ${banner.direction === "up" ? "↑" : "↓"}`;
+      this.dom.onclick = (e) => {
+        e.preventDefault();
+        jumpToNepHunk(view, banner.index);
+        view.focus();
+      };
+    }
+
+    destroy() {
+      this.dom?.remove();
+    }
+  },
+  {
+    eventObservers: {
+      // Scrolling within the viewport doesn't update plugins
+      scroll(_event, view) {
+        this.measure(view);
+      },
+    },
+  },
+);
+
 export const rejectNepSuggestion: Command = (view: EditorView) => {
   const suggestion = view.state.field(NextEditPredictionState)?.suggestion;
 
@@ -270,6 +542,19 @@ interface NextEditPredictionOptions {
    * @default true
    */
   showAcceptReject?: boolean;
+
+  /**
+   * Keep track of the last edits, which the built-in backends send to
+   * the model as `context.recentEdits`. Set to `false` to disable.
+   * @default {}
+   */
+  recentEdits?: RecentEditsOptions | false;
+
+  /**
+   * Provider shared with other editors. Predictions then go
+   * through its queue and respect its limits.
+   */
+  provider?: CompletionProvider;
 }
 
 /**
@@ -283,8 +568,15 @@ export function nextEditPrediction(options: NextEditPredictionOptions) {
     onEdit,
     defaultKeymap = true,
     showAcceptReject = true,
+    recentEdits = {},
+    provider,
   } = options;
-  const fetchFn = debouncePromise(options.fetchFn, delay);
+  const predict = (state: EditorState, view: EditorView, signal: AbortSignal) =>
+    provider
+      ? provider.request(view, () => options.fetchFn(state), signal)
+      : options.fetchFn(state);
+  // Debounce before the provider's queue, so superseded calls never take a slot
+  const fetchFn = debouncePromise(predict, delay);
   return [
     suggestionConfigFacet.of({
       acceptOnClick,
@@ -295,6 +587,9 @@ export function nextEditPrediction(options: NextEditPredictionOptions) {
     NextEditPredictionState,
     fetchSuggestion,
     renderNextEditPredictionPlugin,
+    nextEditBannerPlugin,
+    recentEdits ? trackRecentEdits(recentEdits) : [],
+    provider?.extension ?? [],
     defaultKeymap ? nextEditPredictionKeymap : [],
   ];
 }
@@ -0,0 +1,131 @@
+import { combineConfig, type EditorState, Facet, StateField } from "@codemirror/state";
+
+export interface RecentEditsOptions {
+  /**
+   * How many edits to keep.
+   * @default 5
+   */
+  maxEdits?: number;
+}
+
+/**
+ * An edit of whole lines. Consecutive keystrokes
+ * on the same lines are merged into one edit.
+ */
+export interface RecentEdit {
+  /** Number of the first edited line, when the edit started */
+  line: number;
+  /** The edited lines before the edit */
+  before: string;
+  /** The edited lines after the edit */
+  after: string;
+  /** Where the edited lines are now */
+  from: number;
+  to: number;
+}
+
+const recentEditsConfig = Facet.define<RecentEditsOptions, Required<RecentEditsOptions>>({
+  combine(value) {
+    return combineConfig(value, { maxEdits: 5 }, { maxEdits: Math.max });
+  },
+});
+
+const recentEditsField = StateField.define<readonly RecentEdit[]>({
+  create() {
+    return [];
+  },
+  update(edits, tr) {
+    if (!tr.docChanged) {
+      return edits;
+    }
+
+    // The span of all changes, in the old and the new document
+    let fromA = Infinity;
+    let toA = -Infinity;
+    let fromB = Infinity;
+    let toB = -Infinity;
+    tr.changes.iterChangedRanges((changeFromA, changeToA, changeFromB, changeToB) => {
+      fromA = Math.min(fromA, changeFromA);
+      toA = Math.max(toA, changeToA);
+      fromB = Math.min(fromB, changeFromB);
+      toB = Math.max(toB, changeToB);
+    });
+
+    const { doc } = tr.state;
+    const mapped = edits.map((edit) => ({
+      ...edit,
+      from: tr.changes.mapPos(edit.from, -1),
+      to: tr.changes.mapPos(edit.to, 1),
+    }));
+
+    const last = edits[edits.length - 1];
+    const lastMapped = mapped.pop();
+    let edit: RecentEdit;
+    if (last && lastMapped && fromA >= last.from && toA <= last.to) {
+      // More typing on the lines of the last edit
+      edit = { ...lastMapped, after: doc.sliceString(lastMapped.from, lastMapped.to) };
+    } else {
+      if (lastMapped) mapped.push(lastMapped);
+      const startLine = tr.startState.doc.lineAt(fromA);
+      const from = doc.lineAt(fromB).from;
+      const to = doc.lineAt(toB).to;
+      edit = {
+        line: startLine.number,
+        before: tr.startState.doc.sliceString(startLine.from, tr.startState.doc.lineAt(toA).to),
+        after: doc.sliceString(from, to),
+        from,
+        to,
+      };
+    }
+
+    // Typing something and deleting it again leaves nothing to report
+    if (edit.before !== edit.after) {
+      mapped.push(edit);
+    }
+    return mapped.slice(-tr.state.facet(recentEditsConfig).maxEdits);
+  },
+});
+
+/**
+ * Keeps track of the last edits, which backends send as
+ * `context.recentEdits` to help models infer the user's intent.
+ */
+export function trackRecentEdits(options: RecentEditsOptions = {}) {
+  return [recentEditsConfig.of(options), recentEditsField];
+}
+
+/**
+ * The last edits, oldest first. Empty unless `trackRecentEdits` is installed.
+ */
+export function getRecentEdits(state: EditorState): readonly RecentEdit[] {
+  return state.field(recentEditsField, false) ?? [];
+}
+
+/**
+ * Formats edits as compact unified diffs, one hunk per edit,
+ * without the lines that did not change.
+ */
+export function formatRecentEdits(edits: readonly RecentEdit[]): string {
+  return edits
+    .map((edit) => {
+      const before = edit.before.split("\n");
+      const after = edit.after.split("\n");
+      let line = edit.line;
+      while (before.length > 0 && after.length > 0 && before[0] === after[0]) {
+        before.shift();
+        after.shift();
+        line++;
+      }
+      while (before.length > 0 && after.length > 0 && before.at(-1) === after.at(-1)) {
+        before.pop();
+        after.pop();
+      }
+
+      return [
+        `@@ -${line},${before.length} +${line},${after.length} @@`,
+        ...before.map((text) => `-${text}`),
+        ...after.map((text) => `+${text}`),
+      ].join("\n");
+    })
+    .join("\n");
+}
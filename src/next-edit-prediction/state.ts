@@ -1,9 +1,11 @@
-import { combineConfig, Facet } from "@codemirror/state";
-import type { NextEditPredictor } from "./types.js";
+import { combineConfig, type EditorState, Facet } from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+import type { DiffSuggestion } from "./types.js";
 
 interface SuggestionConfig {
   acceptOnClick: boolean;
-  fetchFn: NextEditPredictor;
+  /** The debounced `fetchFn`, going through the provider if there is one */
+  fetchFn: (state: EditorState, view: EditorView, signal: AbortSignal) => Promise<DiffSuggestion>;
   onEdit?: (oldDoc: string, newDoc: string, from: number, to: number, insert: string) => void;
   showAcceptReject: boolean;
 }
@@ -0,0 +1,167 @@
+/**
+ * How a failed prediction request is handled:
+ * - `abort`: the request was cancelled, fail silently
+ * - `retry`: a transient failure (e.g. rate limited), try again
+ * - `error`: report the error
+ */
+export type PredictionErrorKind = "abort" | "retry" | "error";
+
+/**
+ * Carries a prompt to a model and its prediction back. Backends build
+ * the prompt (cursor marker, template) and clean up the prediction;
+ * the transport only moves them, so the same prompting can run over
+ * HTTP, a WebSocket, a `postMessage` bridge to a worker, or a Jupyter comm.
+ */
+export interface PredictionTransport<TRequest = unknown, TResponse = unknown> {
+  /** Builds the request for a prompt */
+  buildRequest: (prompt: string) => TRequest;
+  /** Sends the request. Should stop when `signal` is aborted. */
+  send: (request: TRequest, signal: AbortSignal) => Promise<TResponse>;
+  /** Extracts the model's raw prediction from the response */
+  parseResponse: (response: TResponse) => string | Promise<string>;
+  /**
+   * Decides how a failed request is handled.
+   * @default classifyPredictionError
+   */
+  classifyError?: (error: unknown) => PredictionErrorKind;
+}
+
+/**
+ * Thrown by HTTP transports when the server responds with an error status.
+ */
+export class PredictionHttpError extends Error {
+  constructor(
+    readonly status: number,
+    /** How long the server asked to wait before retrying (`Retry-After`), in ms */
+    readonly retryAfter?: number,
+  ) {
+    super(`HTTP error! status: ${status}`);
+    this.name = "PredictionHttpError";
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, in seconds or as an HTTP date, into ms.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Default error classifier: aborts are silent, rate limits and
+ * server errors are retried, anything else is reported.
+ */
+export function classifyPredictionError(error: unknown): PredictionErrorKind {
+  // Not every DOMException is an Error instance (e.g. across realms)
+  if ((error as Error | null)?.name === "AbortError") {
+    return "abort";
+  }
+  if (error instanceof PredictionHttpError && (error.status === 429 || error.status >= 500)) {
+    return "retry";
+  }
+  return "error";
+}
+
+export interface HttpTransportOptions<TBody> {
+  /** The full URL to post to */
+  url: string;
+  headers?: Record<string, string>;
+  /** Builds the JSON body for a prompt */
+  buildRequest: (prompt: string) => TBody;
+  /** Extracts the prediction from the JSON response */
+  parseResponse: (data: unknown) => string;
+  classifyError?: (error: unknown) => PredictionErrorKind;
+}
+
+/**
+ * A transport posting JSON over `fetch`.
+ */
+export function httpTransport<TBody>(
+  opts: HttpTransportOptions<TBody>,
+): PredictionTransport<TBody, unknown> {
+  const { url, headers, buildRequest, parseResponse, classifyError } = opts;
+  return {
+    buildRequest,
+    send: async (body, signal) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new PredictionHttpError(
+          response.status,
+          parseRetryAfter(response.headers.get("Retry-After")),
+        );
+      }
+      return response.json();
+    },
+    parseResponse: (data) => {
+      try {
+        return parseResponse(data);
+      } catch (error) {
+        throw new Error(`Error parsing prediction response: ${error}`);
+      }
+    },
+    classifyError,
+  };
+}
+
+/** Delay before the first retry, doubled for each later one */
+const RETRY_DELAY = 500;
+
+/**
+ * Waits before a retry, for as long as the server asked, or with an
+ * exponential backoff. Rejects when `signal` is aborted.
+ */
+function waitBeforeRetry(error: unknown, attempt: number, signal: AbortSignal): Promise<void> {
+  const delay =
+    error instanceof PredictionHttpError && error.retryAfter !== undefined
+      ? error.retryAfter
+      : RETRY_DELAY * 2 ** attempt;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Sends a request over the transport, retrying transient failures
+ * after a delay (see `waitBeforeRetry`).
+ */
+export async function sendPrediction<TRequest, TResponse>(
+  transport: PredictionTransport<TRequest, TResponse>,
+  prompt: string,
+  signal: AbortSignal,
+  retries: number,
+): Promise<string> {
+  const classify = transport.classifyError ?? classifyPredictionError;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await transport.send(transport.buildRequest(prompt), signal);
+      return await transport.parseResponse(response);
+    } catch (error) {
+      if (attempt < retries && !signal.aborted && classify(error) === "retry") {
+        await waitBeforeRetry(error, attempt, signal);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
@@ -13,6 +13,12 @@ export interface DiffSuggestion {
   newText: string;
   from: number;
   to: number;
+  /**
+   * Document position where `oldText` starts, when it only covers
+   * part of the document (e.g. a `window` around the cursor).
+   * @default 0
+   */
+  offset?: number;
 }
 
 export const CURSOR_MARKER = "<|user_cursor_is_here|>";
@@ -1,4 +1,9 @@
-import { EditorSelection, type EditorState, type TransactionSpec } from "@codemirror/state";
+import {
+  type ChangeDesc,
+  EditorSelection,
+  type EditorState,
+  type TransactionSpec,
+} from "@codemirror/state";
 import type { DiffOperation } from "./diff.js";
 
 export function insertDiffText(opts: {
@@ -58,3 +63,58 @@ export function insertDiffText(opts: {
     }
   }
 }
+
+/**
+ * Moves an operation through document changes, e.g. those of
+ * an accepted hunk that comes before it.
+ */
+export function mapDiffOperation(operation: DiffOperation, changes: ChangeDesc): DiffOperation {
+  switch (operation.type) {
+    case "add":
+    case "cursor":
+      return { ...operation, position: changes.mapPos(operation.position) };
+
+    case "remove": {
+      const from = changes.mapPos(operation.position, 1);
+      const to = changes.mapPos(operation.position + operation.count, -1);
+      return { ...operation, position: from, count: Math.max(0, to - from) };
+    }
+
+    case "modify": {
+      const from = changes.mapPos(operation.position, 1);
+      const to = changes.mapPos(operation.position + operation.removeCount, -1);
+      return { ...operation, position: from, removeCount: Math.max(0, to - from) };
+    }
+
+    case "none":
+      return operation;
+  }
+}
+
+/**
+ * Moves an operation computed for part of the document to the
+ * document position where that part starts.
+ */
+export function offsetDiffOperation(operation: DiffOperation, offset: number): DiffOperation {
+  if (operation.type === "none" || offset === 0) {
+    return operation;
+  }
+  return { ...operation, position: operation.position + offset };
+}
+
+/**
+ * The document range an operation applies to, or null for `none`.
+ */
+export function diffOperationRange(operation: DiffOperation): { from: number; to: number } | null {
+  switch (operation.type) {
+    case "add":
+    case "cursor":
+      return { from: operation.position, to: operation.position };
+    case "remove":
+      return { from: operation.position, to: operation.position + operation.count };
+    case "modify":
+      return { from: operation.position, to: operation.position + operation.removeCount };
+    case "none":
+      return null;
+  }
+}
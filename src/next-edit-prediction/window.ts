@@ -0,0 +1,63 @@
+import type { EditorState } from "@codemirror/state";
+
+/**
+ * Limits the part of the document sent with a prediction request
+ */
+export interface PredictionWindowOptions {
+  /**
+   * Lines before and after the cursor that the model may rewrite.
+   * @default 10
+   */
+  editableLines?: number;
+  /**
+   * Lines before and after the editable region sent as read-only context.
+   * @default 50
+   */
+  contextLines?: number;
+}
+
+/**
+ * The part of the document around the selection sent with a prediction
+ */
+export interface PredictionWindow {
+  /** Document position where the editable region starts */
+  from: number;
+  /** Document position where the editable region ends */
+  to: number;
+  /** Read-only code right before the editable region */
+  codeBefore: string;
+  /** Read-only code right after the editable region */
+  codeAfter: string;
+}
+
+/**
+ * Finds the editable region around the selection, in whole lines, and the
+ * read-only context around it. Without options, the whole document is editable.
+ */
+export function predictionWindow(
+  state: EditorState,
+  opts?: PredictionWindowOptions,
+): PredictionWindow {
+  const { doc } = state;
+  if (!opts) {
+    return { from: 0, to: doc.length, codeBefore: "", codeAfter: "" };
+  }
+
+  const { editableLines = 10, contextLines = 50 } = opts;
+  const { from, to } = state.selection.main;
+  const clamp = (line: number) => Math.min(Math.max(line, 1), doc.lines);
+
+  const firstLine = clamp(doc.lineAt(from).number - editableLines);
+  const lastLine = clamp(doc.lineAt(to).number + editableLines);
+  const editableFrom = doc.line(firstLine).from;
+  const editableTo = doc.line(lastLine).to;
+  const contextFrom = doc.line(clamp(firstLine - contextLines)).from;
+  const contextTo = doc.line(clamp(lastLine + contextLines)).to;
+
+  return {
+    from: editableFrom,
+    to: editableTo,
+    codeBefore: doc.sliceString(contextFrom, editableFrom),
+    codeAfter: doc.sliceString(editableTo, contextTo),
+  };
+}
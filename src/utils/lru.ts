@@ -32,6 +32,18 @@ export class LRUCache<K, V> {
     }
   }
 
+  public delete(key: K): boolean {
+    return this.cache.delete(key);
+  }
+
+  public clear() {
+    this.cache.clear();
+  }
+
+  public get size() {
+    return this.cache.size;
+  }
+
   public keys() {
     return this.cache.keys();
   }